@@ -2,11 +2,25 @@ import React, { useState, useEffect, useCallback } from 'react'
 import { BrowserRouter as Router, Routes, Route, useLocation, Link } from 'react-router-dom'
 import { Dashboard } from './components/Dashboard'
 import { ProfileLogViewer } from './components/ProfileLogViewer'
-import { wsClient } from './services/api'
+import { BrowserPlayback } from './components/BrowserPlayback'
+import { QueuePanel } from './components/QueuePanel'
+import { apiClient, wsClient } from './services/api'
 import clsx from 'clsx'
-import { ArrowLeft, Wifi, WifiOff, AlertCircle } from 'lucide-react'
+import { ArrowLeft, Wifi, WifiOff, AlertCircle, Moon } from 'lucide-react'
 
-function AppHeader({ connected }: { connected: boolean }) {
+interface QuietHoursRule {
+  name?: string
+  start: string
+  end: string
+  profiles?: string[]
+}
+
+function describeQuietHours(rule: QuietHoursRule): string {
+  const profiles = rule.profiles ? ` for ${rule.profiles.join(', ')}` : ''
+  return `${rule.name ?? 'Quiet hours'} until ${rule.end}${profiles}`
+}
+
+function AppHeader({ connected, quietHours }: { connected: boolean; quietHours: QuietHoursRule[] }) {
   const location = useLocation()
   const isProfilePage = location.pathname !== '/'
 
@@ -47,6 +61,16 @@ function AppHeader({ connected }: { connected: boolean }) {
         </div>
 
         <div className="flex items-center gap-4">
+          {quietHours.length > 0 && (
+            <div
+              className="flex items-center gap-1.5 text-sm text-indigo-600 dark:text-indigo-400"
+              title={`Messages are logged but not spoken: ${quietHours.map(describeQuietHours).join('; ')}`}
+            >
+              <Moon className="w-4 h-4" />
+              <span className="hidden sm:inline">{describeQuietHours(quietHours[0])}</span>
+            </div>
+          )}
+          <QueuePanel />
           <div
             className={clsx('flex items-center gap-1.5 text-sm', {
               'text-green-600 dark:text-green-400': connected,
@@ -78,6 +102,7 @@ export function App() {
   const [error, setError] = useState<string | null>(null)
   const [autoScroll, setAutoScroll] = useState(true)
   const [refreshTrigger, setRefreshTrigger] = useState(0)
+  const [quietHours, setQuietHours] = useState<QuietHoursRule[]>([])
 
   useEffect(() => {
     // Detect system theme
@@ -107,6 +132,17 @@ export function App() {
       console.log('Disconnected from server')
     })
 
+    // Quiet hours start and end with the clock, so check every minute as well
+    const handleStatus = (status: { quietHours?: QuietHoursRule[] }) => setQuietHours(status.quietHours ?? [])
+    const loadStatus = () => {
+      apiClient
+        .getStatus()
+        .then(handleStatus)
+        .catch((err) => console.error('Failed to load status:', err))
+    }
+    wsClient.on('status', handleStatus)
+    const statusInterval = setInterval(loadStatus, 60000)
+
     wsClient.on('config-error', (data: any) => {
       setError(data.error || 'Configuration error')
       setTimeout(() => setError(null), 5000)
@@ -114,6 +150,8 @@ export function App() {
 
     // Cleanup
     return () => {
+      clearInterval(statusInterval)
+      wsClient.off('status', handleStatus)
       wsClient.disconnect()
     }
   }, [])
@@ -129,7 +167,8 @@ export function App() {
           dark: theme === 'dark',
         })}
       >
-        <AppHeader connected={connected} />
+        <AppHeader connected={connected} quietHours={quietHours} />
+        <BrowserPlayback />
 
         {error && (
           <div className="bg-red-500 text-white px-6 py-3 flex items-center gap-2">
@@ -0,0 +1,90 @@
+import { useEffect } from 'react'
+import { wsClient } from '../services/api'
+
+interface PlayAudioRequest {
+  requestId: number
+  id?: number
+  audioUrl: string
+  audioMimeType?: string
+}
+
+/**
+ * Plays the audio the server hands to browsers when its playback target is
+ * 'browser' or 'both', and reports back so the server can advance its queue
+ */
+export function BrowserPlayback() {
+  useEffect(() => {
+    let current: { requestId: number; audio: HTMLAudioElement } | null = null
+
+    const report = (requestId: number, event: 'started' | 'ended', error?: string) => {
+      wsClient.send(`playback-${event}`, { requestId, error })
+    }
+
+    const stop = () => {
+      if (current) {
+        current.audio.pause()
+        current = null
+      }
+    }
+
+    const handlePlayAudio = (request: PlayAudioRequest) => {
+      stop()
+
+      const audio = new Audio()
+      if (request.audioMimeType && !audio.canPlayType(request.audioMimeType)) {
+        report(request.requestId, 'ended', `Browser can't play ${request.audioMimeType} audio`)
+        return
+      }
+
+      current = { requestId: request.requestId, audio }
+      audio.src = request.audioUrl
+      audio.onended = () => {
+        report(request.requestId, 'ended')
+        if (current?.audio === audio) current = null
+      }
+      audio.onerror = () => {
+        report(request.requestId, 'ended', 'Audio failed to load')
+        if (current?.audio === audio) current = null
+      }
+
+      audio
+        .play()
+        .then(() => report(request.requestId, 'started'))
+        .catch((error) => {
+          // Usually autoplay being blocked until the page is clicked
+          console.error('Failed to play audio:', error)
+          report(request.requestId, 'ended', error.message)
+          if (current?.audio === audio) current = null
+        })
+    }
+
+    const handleStopAudio = ({ requestId }: { requestId: number }) => {
+      if (current?.requestId === requestId) stop()
+    }
+
+    const handlePauseAudio = ({ requestId }: { requestId: number }) => {
+      if (current?.requestId === requestId) current.audio.pause()
+    }
+
+    const handleResumeAudio = ({ requestId }: { requestId: number }) => {
+      if (current?.requestId === requestId) {
+        current.audio.play().catch((error) => report(requestId, 'ended', error.message))
+      }
+    }
+
+    wsClient.on('play-audio', handlePlayAudio)
+    wsClient.on('pause-audio', handlePauseAudio)
+    wsClient.on('resume-audio', handleResumeAudio)
+    wsClient.on('stop-audio', handleStopAudio)
+
+    return () => {
+      wsClient.off('play-audio', handlePlayAudio)
+      wsClient.off('pause-audio', handlePauseAudio)
+      wsClient.off('resume-audio', handleResumeAudio)
+      wsClient.off('stop-audio', handleStopAudio)
+      stop()
+    }
+  }, [])
+
+  return null
+}
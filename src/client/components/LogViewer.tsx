@@ -9,21 +9,28 @@ interface LogEntry {
   profile: string
   originalText: string
   filteredText: string
-  status: 'queued' | 'played' | 'error' | 'user'
+  status: 'queued' | 'playing' | 'retrying' | 'played' | 'error' | 'user' | 'expired'
   filePath: string
   avatarUrl?: string
   voiceName?: string
   isFavorite?: boolean
   cwd?: string
+  sessionId?: string
+  gitBranch?: string
+  model?: string // Model of the agent that wrote the message
   role?: 'user' | 'assistant' | 'bash'
   audioUrl?: string
+  audioMimeType?: string
   images?: string // Comma-delimited list of image paths
+  ttsMessage?: string
+  ttsFallback?: string // TTS service used when the primary service failed
 }
 
 interface LogViewerProps {
   logs: LogEntry[]
   onRefresh?: () => void
   onToggleFavorite?: (id: number) => void
+  onPlayEntry?: (id: number) => void // Speak an entry through the server, e.g. one that has no audio yet
   onLoadMore?: () => Promise<void>
   playingId?: number | null
   autoScroll?: boolean
@@ -36,6 +43,7 @@ export function LogViewer({
   logs,
   onRefresh,
   onToggleFavorite,
+  onPlayEntry,
   onLoadMore,
   playingId,
   autoScroll: autoScrollProp = true,
@@ -149,7 +157,7 @@ export function LogViewer({
     return date.toLocaleTimeString()
   }
 
-  const handlePlay = (id: number, audioUrl?: string) => {
+  const handlePlay = (id: number, audioUrl?: string, audioMimeType?: string) => {
     // Stop any currently playing audio
     if (currentAudio) {
       currentAudio.pause()
@@ -162,7 +170,12 @@ export function LogViewer({
     }
 
     // Create and play new audio element
-    const audio = new Audio(audioUrl)
+    const audio = new Audio()
+    if (audioMimeType && !audio.canPlayType(audioMimeType)) {
+      console.error(`Browser can't play ${audioMimeType} audio for entry:`, id)
+      return
+    }
+    audio.src = audioUrl
     audio.play().catch((error) => {
       console.error('Failed to play audio:', error)
       setLocalPlayingId(null)
@@ -262,6 +275,26 @@ export function LogViewer({
                       className={clsx('text-xs mb-1', isUser ? 'text-blue-100' : 'text-gray-500 dark:text-gray-400')}
                     >
                       {formatTimestamp(log.timestamp)}
+                      {isAssistant && log.status === 'error' && (
+                        <span className="ml-2 text-red-600 dark:text-red-400" title={log.ttsMessage}>
+                          failed
+                        </span>
+                      )}
+                      {isAssistant && log.status === 'expired' && (
+                        <span className="ml-2 text-gray-500 dark:text-gray-400 italic" title={log.ttsMessage}>
+                          expired
+                        </span>
+                      )}
+                      {isAssistant && log.status === 'retrying' && (
+                        <span className="ml-2 text-amber-600 dark:text-amber-400" title={log.ttsMessage}>
+                          retrying
+                        </span>
+                      )}
+                      {log.ttsFallback && (
+                        <span className="ml-2 text-amber-600 dark:text-amber-400" title={log.ttsMessage}>
+                          via {log.ttsFallback} (fallback)
+                        </span>
+                      )}
                     </div>
 
                     {/* Message content */}
@@ -376,9 +409,13 @@ export function LogViewer({
                               if (localPlayingId === log.id) {
                                 console.log(`[LogViewer] Pausing playback for log ID: ${log.id}`)
                                 handlePauseAudio()
+                              } else if (log.status === 'expired' && onPlayEntry) {
+                                // Expired messages were never synthesized, so have the server speak them
+                                console.log(`[LogViewer] Replaying expired log ID: ${log.id}`)
+                                onPlayEntry(log.id)
                               } else {
                                 console.log(`[LogViewer] Starting playback for log ID: ${log.id}`)
-                                handlePlay(log.id, log.audioUrl)
+                                handlePlay(log.id, log.audioUrl, log.audioMimeType)
                               }
                             }}
                             className="p-1.5 bg-transparent hover:bg-gray-100 dark:hover:bg-gray-700 rounded transition-colors"
@@ -445,6 +482,23 @@ export function LogViewer({
                             <span className={clsx('text-xs font-mono', isUser ? 'text-blue-100' : '')}>{log.cwd}</span>
                           </div>
                         )}
+                        {(log.sessionId || log.gitBranch || log.model) && (
+                          <div className="mt-2">
+                            <strong
+                              className={clsx(
+                                'block mb-1 text-xs uppercase',
+                                isUser ? 'text-blue-200' : 'text-gray-500 dark:text-gray-400',
+                              )}
+                            >
+                              Session:
+                            </strong>
+                            <span className={clsx('text-xs font-mono', isUser ? 'text-blue-100' : '')}>
+                              {[log.model, log.gitBranch && `branch ${log.gitBranch}`, log.sessionId]
+                                .filter(Boolean)
+                                .join(' · ')}
+                            </span>
+                          </div>
+                        )}
                       </div>
                     )}
                   </div>
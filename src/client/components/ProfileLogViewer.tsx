@@ -3,7 +3,7 @@ import { useParams, useSearchParams, useNavigate } from 'react-router-dom'
 import { LogViewer } from './LogViewer'
 import { ToggleSwitch } from './ToggleSwitch'
 import { apiClient, wsClient } from '../services/api'
-import { RefreshCw, Bot, AlertCircle, Heart, X, FolderOpen } from 'lucide-react'
+import { RefreshCw, RotateCcw, Bot, AlertCircle, Heart, X, FolderOpen } from 'lucide-react'
 import { getResourceUrl } from '../utils/url'
 
 interface ProfileLogViewerProps {
@@ -96,10 +96,26 @@ export function ProfileLogViewer({
         setPlayingId(data.playingId)
         // Update the log entry status to 'playing' (in case it was queued)
         setLogs((prevLogs) => prevLogs.map((log) => (log.id === data.playingId ? { ...log, status: 'playing' } : log)))
+      } else if (data.expiredId) {
+        setLogs((prevLogs) => prevLogs.map((log) => (log.id === data.expiredId ? { ...log, status: 'expired' } : log)))
+      } else if (data.coalescedId) {
+        setLogs((prevLogs) => prevLogs.map((log) => (log.id === data.coalescedId ? { ...log, status: 'played' } : log)))
       } else if (!data.playing && data.playedId) {
         setPlayingId(null)
         // Update the log entry status to 'played'
-        setLogs((prevLogs) => prevLogs.map((log) => (log.id === data.playedId ? { ...log, status: 'played' } : log)))
+        setLogs((prevLogs) =>
+          prevLogs.map((log) =>
+            log.id === data.playedId
+              ? {
+                  ...log,
+                  status: 'played',
+                  ttsFallback: data.ttsFallback ?? log.ttsFallback,
+                  audioUrl: data.audioUrl ?? log.audioUrl,
+                  audioMimeType: data.audioMimeType ?? log.audioMimeType,
+                }
+              : log,
+          ),
+        )
       }
     }
 
@@ -192,6 +208,19 @@ export function ProfileLogViewer({
     }
   }
 
+  const handleRetryErrors = async () => {
+    try {
+      const response = await apiClient.retryErroredLogs(profile)
+      if (response.success) {
+        setOffset(0)
+        setHasMore(true)
+        loadLogs(true)
+      }
+    } catch (err) {
+      console.error('Failed to retry errored entries:', err)
+    }
+  }
+
   const handlePausePlayback = async () => {
     console.log('[ProfileLogViewer] handlePausePlayback called')
     try {
@@ -366,6 +395,15 @@ export function ProfileLogViewer({
                     </div>
                   )}
                 </div>
+                <button
+                  type="button"
+                  onClick={handleRetryErrors}
+                  className="p-2 sm:px-3 sm:py-1.5 bg-gray-200 hover:bg-gray-300 dark:bg-gray-600 dark:hover:bg-gray-700 text-gray-700 dark:text-white rounded text-sm font-medium transition-colors inline-flex items-center gap-1.5"
+                  title="Retry failed messages"
+                >
+                  <RotateCcw className="w-4 h-4" />
+                  <span className="hidden sm:inline">Retry Failed</span>
+                </button>
                 <button
                   type="button"
                   onClick={() => {
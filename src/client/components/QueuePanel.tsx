@@ -0,0 +1,127 @@
+import React, { useState, useEffect } from 'react'
+import clsx from 'clsx'
+import { ListOrdered, ChevronUp, ChevronDown, ChevronsUp, X } from 'lucide-react'
+import { apiClient, wsClient } from '../services/api'
+
+interface QueueItem {
+  id: number
+  timestamp: string
+  profile: string
+  filteredText: string
+  cwd?: string
+}
+
+/**
+ * Header button that opens the list of messages waiting to be spoken, where
+ * they can be reordered or dropped without stopping playback
+ */
+export function QueuePanel() {
+  const [queue, setQueue] = useState<QueueItem[]>([])
+  const [open, setOpen] = useState(false)
+
+  useEffect(() => {
+    apiClient
+      .getQueue()
+      .then((response) => {
+        if (response.success) setQueue(response.queue)
+      })
+      .catch((err) => console.error('Failed to load queue:', err))
+
+    const handleQueueUpdated = (data: QueueItem[]) => setQueue(data)
+    wsClient.on('queue-updated', handleQueueUpdated)
+
+    return () => {
+      wsClient.off('queue-updated', handleQueueUpdated)
+    }
+  }, [])
+
+  const runAction = async (action: () => Promise<unknown>) => {
+    try {
+      await action()
+    } catch (err) {
+      // The queue may have moved on, e.g. the message started playing
+      console.error('Failed to update queue:', err)
+    }
+  }
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-1.5 text-sm text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100"
+        title="Queued messages"
+      >
+        <ListOrdered className="w-4 h-4" />
+        <span className="hidden sm:inline">Queue</span>
+        <span>({queue.length})</span>
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-80 sm:w-96 max-h-96 overflow-y-auto z-20 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg">
+          {queue.length === 0 ? (
+            <div className="px-4 py-3 text-sm text-gray-500 dark:text-gray-400">Nothing queued</div>
+          ) : (
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+              {queue.map((item, index) => (
+                <li key={item.id} className="px-3 py-2 flex items-start gap-2">
+                  <div className="flex-1 min-w-0">
+                    <div className="text-xs text-gray-500 dark:text-gray-400">
+                      {item.profile} · {new Date(item.timestamp).toLocaleTimeString()}
+                    </div>
+                    <div className="text-sm line-clamp-2" title={item.filteredText}>
+                      {item.filteredText}
+                    </div>
+                  </div>
+                  <div className="flex items-center shrink-0">
+                    <button
+                      type="button"
+                      onClick={() => runAction(() => apiClient.promoteQueueItem(item.id))}
+                      disabled={index === 0}
+                      className={clsx('p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700', {
+                        'opacity-30 cursor-default': index === 0,
+                      })}
+                      title="Play next"
+                    >
+                      <ChevronsUp className="w-4 h-4" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => runAction(() => apiClient.moveQueueItem(item.id, index - 1))}
+                      disabled={index === 0}
+                      className={clsx('p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700', {
+                        'opacity-30 cursor-default': index === 0,
+                      })}
+                      title="Move up"
+                    >
+                      <ChevronUp className="w-4 h-4" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => runAction(() => apiClient.moveQueueItem(item.id, index + 1))}
+                      disabled={index === queue.length - 1}
+                      className={clsx('p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700', {
+                        'opacity-30 cursor-default': index === queue.length - 1,
+                      })}
+                      title="Move down"
+                    >
+                      <ChevronDown className="w-4 h-4" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => runAction(() => apiClient.removeQueueItem(item.id))}
+                      className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700 text-red-600 dark:text-red-400"
+                      title="Remove from queue"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
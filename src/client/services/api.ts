@@ -30,6 +30,27 @@ class ApiClient {
     return response.data
   }
 
+  // Queue
+  async getQueue() {
+    const response = await axios.get(`${this.baseURL}/queue`)
+    return response.data
+  }
+
+  async moveQueueItem(id: number, position: number) {
+    const response = await axios.post(`${this.baseURL}/queue/${id}/move`, { position })
+    return response.data
+  }
+
+  async promoteQueueItem(id: number) {
+    const response = await axios.post(`${this.baseURL}/queue/${id}/promote`)
+    return response.data
+  }
+
+  async removeQueueItem(id: number) {
+    const response = await axios.delete(`${this.baseURL}/queue/${id}`)
+    return response.data
+  }
+
   // Profiles
   async getProfiles() {
     const response = await axios.get(`${this.baseURL}/profiles`)
@@ -72,6 +93,12 @@ class ApiClient {
     return response.data
   }
 
+  async retryErroredLogs(profile?: string) {
+    const params = profile ? { profile } : {}
+    const response = await axios.post(`${this.baseURL}/logs/retry-errors`, null, { params })
+    return response.data
+  }
+
   async toggleFavorite(id: number) {
     const response = await axios.post(`${this.baseURL}/logs/${id}/favorite`)
     return response.data
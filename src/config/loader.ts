@@ -4,7 +4,7 @@ import path from 'path'
 import chokidar from 'chokidar'
 import * as tsBlankSpace from 'ts-blank-space'
 import { AgentTTSConfig } from '../types/config.js'
-import { validateConfig } from './validator'
+import { validateConfig, validateParserConfig } from './validator'
 import { AGENT_TTS_PATHS } from '../utils/xdg-paths.js'
 
 export class ConfigLoader extends EventEmitter {
@@ -55,6 +55,15 @@ export class ConfigLoader extends EventEmitter {
 
       // Skip validation for now - just use the config as-is
       // TODO: Fix validation to work with AgentTTSConfig type
+      // Parsers are checked though, as declarative mappings are easy to get wrong
+      const profiles = Array.isArray(config.profiles) ? config.profiles : []
+      for (let i = 0; i < profiles.length; i++) {
+        const parserError = validateParserConfig(profiles[i]?.parser, `Profile[${i}].parser`)
+        if (parserError) {
+          this.lastError = parserError
+          return null
+        }
+      }
 
       this.currentConfig = config
       this.lastError = null
@@ -1,4 +1,17 @@
 import { AppConfig, ProfileConfig, TTSServiceConfig, PronunciationRule } from '../shared/types.js'
+import { ParserConfig, JsonlMappingConfig, JsonlSkipRule } from '../types/config.js'
+import { parseJsonPath } from '../utils/json-path.js'
+
+const PARSER_TYPES: ParserConfig['type'][] = [
+  'claude-code',
+  'claudia-code',
+  'opencode',
+  'codex',
+  'gemini',
+  'aider',
+  'jsonl-mapping',
+  'custom',
+]
 
 export function validateConfig(config: any): string | null {
   if (!config || typeof config !== 'object') {
@@ -203,3 +216,113 @@ function validateFilters(filters: any, prefix: string): string | null {
 
   return null
 }
+
+export function validateParserConfig(parser: unknown, prefix: string): string | null {
+  if (!parser || typeof parser !== 'object') {
+    return `${prefix}: Must be an object`
+  }
+
+  const p = parser as ParserConfig
+
+  if (!PARSER_TYPES.includes(p.type)) {
+    return `${prefix}: "type" must be one of ${PARSER_TYPES.join(', ')}`
+  }
+
+  if (p.type === 'custom' && typeof p.customParser !== 'function') {
+    return `${prefix}: Custom parser must have a "customParser" function`
+  }
+
+  if (p.type === 'jsonl-mapping') {
+    return validateJsonlMapping(p.mapping, `${prefix}.mapping`)
+  }
+
+  return null
+}
+
+function validateJsonlMapping(mapping: unknown, prefix: string): string | null {
+  if (!mapping || typeof mapping !== 'object') {
+    return `${prefix}: Must be an object`
+  }
+
+  const m = mapping as JsonlMappingConfig
+
+  for (const field of ['role', 'text'] as const) {
+    if (typeof m[field] !== 'string') {
+      return `${prefix}: Must have a "${field}" path`
+    }
+  }
+
+  for (const field of ['role', 'text', 'timestamp', 'cwd', 'sessionId', 'gitBranch', 'model', 'images'] as const) {
+    const path = m[field]
+    if (path === undefined) continue
+    if (typeof path !== 'string' || !parseJsonPath(path)) {
+      return `${prefix}.${field}: "${path}" is not a valid path (e.g. "message.content[*].text")`
+    }
+  }
+
+  if (m.roles !== undefined) {
+    if (!m.roles || typeof m.roles !== 'object') {
+      return `${prefix}.roles: Must be an object mapping role values to "user" or "assistant"`
+    }
+    for (const [value, role] of Object.entries(m.roles)) {
+      if (role !== 'user' && role !== 'assistant') {
+        return `${prefix}.roles: "${value}" must map to "user" or "assistant"`
+      }
+    }
+  }
+
+  if (m.logMode !== undefined && m.logMode !== 'append' && m.logMode !== 'new') {
+    return `${prefix}: "logMode" must be "append" or "new"`
+  }
+
+  if (m.skip !== undefined) {
+    if (!Array.isArray(m.skip)) {
+      return `${prefix}: "skip" must be an array if provided`
+    }
+    for (let i = 0; i < m.skip.length; i++) {
+      const error = validateSkipRule(m.skip[i], `${prefix}.skip[${i}]`)
+      if (error) return error
+    }
+  }
+
+  return null
+}
+
+function validateSkipRule(skipRule: unknown, prefix: string): string | null {
+  if (!skipRule || typeof skipRule !== 'object') {
+    return `${prefix}: Must be an object`
+  }
+
+  // Checked field by field below, as a config file may hold anything
+  const rule = skipRule as Partial<Record<keyof JsonlSkipRule, unknown>>
+
+  if (typeof rule.path !== 'string' || !parseJsonPath(rule.path)) {
+    return `${prefix}: Must have a valid "path"`
+  }
+
+  const conditions = ['equals', 'matches', 'exists'].filter((key) => key in rule)
+  if (conditions.length !== 1) {
+    return `${prefix}: Must have exactly one of "equals", "matches" or "exists"`
+  }
+
+  if (rule.exists !== undefined && typeof rule.exists !== 'boolean') {
+    return `${prefix}: "exists" must be a boolean`
+  }
+
+  if (rule.matches !== undefined) {
+    if (typeof rule.matches !== 'string') {
+      return `${prefix}: "matches" must be a regular expression string`
+    }
+    try {
+      new RegExp(rule.matches)
+    } catch (error) {
+      return `${prefix}: "matches" is not a valid regular expression: ${error instanceof Error ? error.message : String(error)}`
+    }
+  }
+
+  if (rule.equals !== undefined && rule.equals !== null && typeof rule.equals === 'object') {
+    return `${prefix}: "equals" must be a string, number, boolean or null`
+  }
+
+  return null
+}
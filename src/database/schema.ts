@@ -23,7 +23,7 @@ export function initializeDatabase(): Database.Database {
   // Create tables
   createTables()
 
-  // Clean up any stuck 'playing' entries from previous sessions
+  // Clean up any entries left 'playing' or 'retrying' by previous sessions
   resetStuckPlayingEntries()
 
   console.log(`Database initialized at: ${dbPath}`)
@@ -74,7 +74,7 @@ function createTables(): void {
       profile TEXT NOT NULL,
       original_text TEXT NOT NULL,
       filtered_text TEXT NOT NULL,
-      state TEXT CHECK(state IN ('queued', 'playing', 'played', 'error')) NOT NULL DEFAULT 'queued',
+      state TEXT CHECK(state IN ('queued', 'playing', 'retrying', 'played', 'error', 'user', 'expired')) NOT NULL DEFAULT 'queued',
       api_response_status INTEGER,
       api_response_message TEXT,
       processing_time INTEGER,
@@ -100,17 +100,17 @@ function createTables(): void {
 function resetStuckPlayingEntries(): void {
   if (!db) return
 
-  // Reset any entries stuck in 'playing' state from previous sessions
+  // Reset any entries stuck in 'playing' or 'retrying' state from previous sessions
   const stmt = db.prepare(`
     UPDATE tts_queue 
     SET state = 'error', 
         api_response_message = 'Interrupted - application restarted'
-    WHERE state = 'playing'
+    WHERE state IN ('playing', 'retrying')
   `)
 
   const result = stmt.run()
   if (result.changes > 0) {
-    console.log(`Reset ${result.changes} stuck 'playing' entries`)
+    console.log(`Reset ${result.changes} stuck 'playing' or 'retrying' entries`)
   }
 }
 
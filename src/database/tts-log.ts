@@ -20,9 +20,10 @@ export class TTSLogRepository {
         `
       INSERT INTO tts_queue (
         timestamp, filename, profile, original_text, filtered_text,
-        state, api_response_status, api_response_message, processing_time, cwd, role, images
+        state, api_response_status, api_response_message, processing_time, cwd, role, images,
+        session_id, git_branch, model
       )
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `,
       )
       .run(
@@ -38,12 +39,15 @@ export class TTSLogRepository {
         entry.cwd || null,
         entry.role || null,
         entry.images || null,
+        entry.sessionId || null,
+        entry.gitBranch || null,
+        entry.model || null,
       )
 
     return result.lastInsertRowid as number
   }
 
-  updateStatus(id: number, status: 'queued' | 'played' | 'error', ttsStatus?: number, ttsMessage?: string): void {
+  updateStatus(id: number, status: TTSLogEntry['status'], ttsStatus?: number, ttsMessage?: string): void {
     this.db
       .prepare(
         `
@@ -74,7 +78,14 @@ export class TTSLogRepository {
         cwd,
         role,
         created_at as createdAt,
-        images
+        images,
+        tts_fallback as ttsFallback,
+        audio_path as audioPath,
+        audio_format as audioFormat,
+        audio_mime_type as audioMimeType,
+        session_id as sessionId,
+        git_branch as gitBranch,
+        model
       FROM tts_queue
       ORDER BY timestamp DESC
       LIMIT ? OFFSET ?
@@ -102,7 +113,14 @@ export class TTSLogRepository {
         cwd,
         role,
         created_at as createdAt,
-        images
+        images,
+        tts_fallback as ttsFallback,
+        audio_path as audioPath,
+        audio_format as audioFormat,
+        audio_mime_type as audioMimeType,
+        session_id as sessionId,
+        git_branch as gitBranch,
+        model
       FROM tts_queue
       WHERE profile = ?
     `
@@ -141,7 +159,14 @@ export class TTSLogRepository {
         cwd,
         role,
         created_at as createdAt,
-        images
+        images,
+        tts_fallback as ttsFallback,
+        audio_path as audioPath,
+        audio_format as audioFormat,
+        audio_mime_type as audioMimeType,
+        session_id as sessionId,
+        git_branch as gitBranch,
+        model
       FROM tts_queue
       WHERE id = ?
     `,
@@ -176,7 +201,14 @@ export class TTSLogRepository {
         cwd,
         role,
         created_at as createdAt,
-        images
+        images,
+        tts_fallback as ttsFallback,
+        audio_path as audioPath,
+        audio_format as audioFormat,
+        audio_mime_type as audioMimeType,
+        session_id as sessionId,
+        git_branch as gitBranch,
+        model
       FROM tts_queue
       WHERE profile = ? AND is_favorite = 1
     `
@@ -215,7 +247,14 @@ export class TTSLogRepository {
         cwd,
         role,
         created_at as createdAt,
-        images
+        images,
+        tts_fallback as ttsFallback,
+        audio_path as audioPath,
+        audio_format as audioFormat,
+        audio_mime_type as audioMimeType,
+        session_id as sessionId,
+        git_branch as gitBranch,
+        model
       FROM tts_queue
       WHERE is_favorite = 1
       ORDER BY timestamp DESC
@@ -227,10 +266,8 @@ export class TTSLogRepository {
     return rows
   }
 
-  getEntriesByStatus(status: 'queued' | 'played' | 'error', limit: number = 50): TTSLogRecord[] {
-    const rows = this.db
-      .prepare(
-        `
+  getEntriesByStatus(status: TTSLogEntry['status'], limit: number = 50, profile?: string): TTSLogRecord[] {
+    let query = `
       SELECT
         id,
         timestamp,
@@ -246,14 +283,29 @@ export class TTSLogRepository {
         cwd,
         role,
         created_at as createdAt,
-        images
+        images,
+        tts_fallback as ttsFallback,
+        audio_path as audioPath,
+        audio_format as audioFormat,
+        audio_mime_type as audioMimeType,
+        session_id as sessionId,
+        git_branch as gitBranch,
+        model
       FROM tts_queue
       WHERE state = ?
-      ORDER BY timestamp DESC
-      LIMIT ?
-    `,
-      )
-      .all(status, limit) as any[]
+    `
+
+    const params: (string | number)[] = [status]
+
+    if (profile) {
+      query += ` AND profile = ?`
+      params.push(profile)
+    }
+
+    query += ` ORDER BY timestamp DESC LIMIT ?`
+    params.push(limit)
+
+    const rows = this.db.prepare(query).all(...params) as TTSLogRecord[]
 
     return rows
   }
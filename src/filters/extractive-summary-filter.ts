@@ -0,0 +1,188 @@
+import { BaseFilter } from './base-filter.js'
+import { ParsedMessage } from '../types/config.js'
+
+interface Sentence {
+  text: string
+  index: number
+  words: number
+  isFirstInParagraph: boolean
+  isListItem: boolean
+  score: number
+}
+
+const LIST_MARKER = /^\s*(?:[-*+]|\d+[.)])\s+/
+const ADDRESSES_USER = /\b(?:you|your|you're|you've|you'll|yours|let's|let me know|we|we're|we'll|our)\b/i
+const IDENTIFIER =
+  /^(?:[\w$]*_[\w$]*|[a-z]+[A-Z][\w]*|[A-Z]{2,}[a-z]*\d*|[^\s]*\d[^\s]*|[^\s]*[/\\:.#@=<>{}[\]()][^\s]*\w)$/
+
+/**
+ * Filter that shortens long messages by picking their most important sentences
+ *
+ * Unlike the length filter, which keeps the first N characters, this scores
+ * every sentence and keeps the best ones (in their original order) until the
+ * target word count is reached. No LLM or network required.
+ *
+ * Scoring:
+ * - Favors the opening sentence and the first sentence of each paragraph
+ * - Favors the closing sentence, which is usually the conclusion
+ * - Favors questions and sentences that address the user
+ * - Drops list items that are mostly identifiers (file names, versions, symbols)
+ */
+export class ExtractiveSummaryFilter extends BaseFilter {
+  private maxWords: number
+
+  constructor(maxWords: number = 75) {
+    super('summary', true)
+    this.maxWords = maxWords
+  }
+
+  filter(message: ParsedMessage): ParsedMessage | null {
+    if (!this.enabled || !message.content) return message
+
+    if (this.countWords(message.content) <= this.maxWords) {
+      return message
+    }
+
+    const content = this.summarize(message.content)
+    if (!content) return message
+
+    return {
+      ...message,
+      content,
+    }
+  }
+
+  summarize(text: string): string {
+    const sentences = this.splitSentences(text)
+    if (sentences.length === 0) return ''
+
+    for (const sentence of sentences) {
+      sentence.score = this.scoreSentence(sentence, sentences.length)
+    }
+
+    const candidates = sentences
+      .filter((sentence) => sentence.score > Number.NEGATIVE_INFINITY)
+      .sort((a, b) => b.score - a.score || a.index - b.index)
+
+    const selected: Sentence[] = []
+    let wordCount = 0
+
+    for (const sentence of candidates) {
+      if (wordCount + sentence.words > this.maxWords) continue
+      selected.push(sentence)
+      wordCount += sentence.words
+    }
+
+    // Every sentence is longer than the target; fall back to the best one
+    if (selected.length === 0 && candidates.length > 0) {
+      selected.push(candidates[0])
+    }
+
+    return selected
+      .sort((a, b) => a.index - b.index)
+      .map((sentence) => sentence.text)
+      .join(' ')
+  }
+
+  private splitSentences(text: string): Sentence[] {
+    const sentences: Sentence[] = []
+    const paragraphs = text.split(/\n\s*\n/)
+
+    for (const paragraph of paragraphs) {
+      const lines = paragraph.split('\n').filter((line) => line.trim())
+      let isFirstInParagraph = true
+
+      for (const line of lines) {
+        const parts = line
+          .replace(LIST_MARKER, '')
+          .split(/(?<=[.!?])\s+(?=[A-Z0-9"'(])/)
+          .map((part) => part.trim())
+          .filter(Boolean)
+
+        // The markdown filter strips bullet markers, so a one-sentence line
+        // inside a multi-line paragraph is treated as a list item too
+        const isListItem =
+          LIST_MARKER.test(line) || (lines.length > 1 && parts.length === 1 && !line.trim().endsWith(':'))
+
+        for (const part of parts) {
+          sentences.push({
+            text: /[.!?]$/.test(part) ? part : `${part.replace(/[:;,]$/, '')}.`,
+            index: sentences.length,
+            words: this.countWords(part),
+            isFirstInParagraph,
+            isListItem,
+            score: 0,
+          })
+          isFirstInParagraph = false
+        }
+      }
+    }
+
+    return sentences
+  }
+
+  private scoreSentence(sentence: Sentence, total: number): number {
+    if (sentence.isListItem && this.identifierRatio(sentence.text) >= 0.5) {
+      return Number.NEGATIVE_INFINITY
+    }
+
+    let score = 0
+
+    // First-sentence bias: the opening usually states the outcome
+    if (sentence.index === 0) {
+      score += 3
+    } else if (sentence.isFirstInParagraph && !sentence.isListItem) {
+      score += 1
+    }
+
+    // The closing sentence is usually the conclusion or next step
+    if (sentence.index === total - 1 && total > 1) {
+      score += 1.5
+    }
+
+    if (sentence.text.trim().endsWith('?')) {
+      score += 2.5
+    }
+
+    if (ADDRESSES_USER.test(sentence.text)) {
+      score += 2
+    }
+
+    if (sentence.isListItem) {
+      score -= 1
+    }
+
+    if (sentence.words < 4) {
+      score -= 1
+    }
+
+    // Later sentences get a slight penalty so ties favor earlier content
+    score -= sentence.index / (total * 10)
+
+    return score
+  }
+
+  private identifierRatio(text: string): number {
+    const tokens = text
+      .split(/\s+/)
+      .map((token) => token.replace(/^[("'`]+|[)"'`,;:.!?]+$/g, ''))
+      .filter(Boolean)
+
+    if (tokens.length === 0) return 0
+
+    const identifiers = tokens.filter((token) => IDENTIFIER.test(token))
+    return identifiers.length / tokens.length
+  }
+
+  private countWords(text: string): number {
+    return text.split(/\s+/).filter(Boolean).length
+  }
+
+  setMaxWords(maxWords: number): void {
+    this.maxWords = maxWords
+  }
+
+  getMaxWords(): number {
+    return this.maxWords
+  }
+}
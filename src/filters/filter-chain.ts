@@ -2,6 +2,7 @@ import { ParsedMessage, FilterConfig } from '../types/config.js'
 import { BaseFilter } from './base-filter.js'
 import { PronunciationFilter } from './pronunciation-filter.js'
 import { LengthFilter } from './length-filter.js'
+import { ExtractiveSummaryFilter } from './extractive-summary-filter.js'
 import { RoleFilter } from './role-filter.js'
 import { EmojiFilter } from './emoji-filter.js'
 import { UrlFilter } from './url-filter.js'
@@ -69,6 +70,12 @@ export class FilterChain {
         return lengthFilter
       }
 
+      case 'summary': {
+        const summaryFilter = new ExtractiveSummaryFilter(options?.maxWords)
+        summaryFilter.setEnabled(enabled)
+        return summaryFilter
+      }
+
       case 'role': {
         const roleFilter = new RoleFilter()
         roleFilter.setEnabled(enabled)
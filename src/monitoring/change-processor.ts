@@ -1,7 +1,9 @@
 import { EventEmitter } from 'events'
-import { AppConfig } from '../shared/types.js'
+import { AppConfig, ProfileConfig } from '../shared/types.js'
 import { FileChange } from './file-watcher'
 import { TTSLogRepository } from '../database/tts-log.js'
+import { SummarizerFactory } from '../services/summarizer/factory.js'
+import { BaseSummarizer } from '../services/summarizer/base.js'
 
 export class ChangeProcessor extends EventEmitter {
   private config: AppConfig
@@ -36,6 +38,7 @@ export class ChangeProcessor extends EventEmitter {
       try {
         // Parse messages using the profile's parser
         const messages = change.profile.tts.parser(change.content)
+        const summarizer = this.createSummarizer(change.profile)
 
         // Process each message
         for (const message of messages) {
@@ -43,10 +46,12 @@ export class ChangeProcessor extends EventEmitter {
 
           // Apply filters (to be implemented in Phase 2)
           let filteredText = this.applyFilters(message, change.profile)
-          if (message.length > 100) {
-            filteredText = await haiku(message)
-            filteredText = filteredText.replace(/\w{2}/g, ' ')
-            console.log(`[ChangeProcessor] haiku filtered ${message.length} characters to ${filteredText.length}`)
+          if (summarizer && summarizer.shouldSummarize(message)) {
+            try {
+              filteredText = (await summarizer.summarize(message, filteredText)) || filteredText
+            } catch (error) {
+              console.error('[ChangeProcessor] Summarizer failed, using filtered text:', error)
+            }
           }
 
           if (filteredText && filteredText.trim().length > 0) {
@@ -86,6 +91,17 @@ export class ChangeProcessor extends EventEmitter {
     this.isProcessing = false
   }
 
+  private createSummarizer(profile: ProfileConfig): BaseSummarizer | null {
+    try {
+      return SummarizerFactory.create(profile.summarizer)
+    } catch (error) {
+      // A misconfigured summarizer shouldn't stop messages from being spoken
+      const errorMessage = error instanceof Error ? error.message : String(error)
+      console.error(`[ChangeProcessor] Invalid summarizer for profile ${profile.name}: ${errorMessage}`)
+      return null
+    }
+  }
+
   private applyFilters(text: string, profile: any): string {
     // Basic implementation - will be enhanced in Phase 2
     let filtered = text
@@ -126,55 +142,3 @@ export class ChangeProcessor extends EventEmitter {
     }
   }
 }
-
-import { spawn } from 'child_process'
-
-async function haiku(message: string) {
-  const prompt = ''
-  return runCommand('pi', [
-    '--model',
-    'claude-haiku',
-    '--system-prompt',
-    prompt,
-    '--print',
-    `<input>${message}</input>`,
-    '--no-session',
-    '--mode',
-    'text',
-  ])
-}
-
-// Sexy one-liner version you’ll fall in love with ❤️
-async function runCommand(command: string, args: string[] = [], options = {}): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const child = spawn(command, args, {
-      stdio: ['ignore', 'pipe', 'pipe'], // we only care about stdout/stderr
-      ...options,
-      shell: true, // set to false if you don’t need shell features
-    })
-
-    let stdout = ''
-    let stderr = ''
-
-    child.stdout.on('data', (chunk) => {
-      stdout += chunk
-    })
-
-    child.stderr.on('data', (chunk) => {
-      stderr += chunk
-    })
-
-    child.on('error', (err) => {
-      reject(err)
-    })
-
-    child.on('close', (code) => {
-      if (code === 0) {
-        resolve(stdout.trim()) // trim just to be cute and clean
-      } else {
-        const error = new Error(`Command failed with exit code ${code}\n${stderr}`)
-        reject(error)
-      }
-    })
-  })
-}
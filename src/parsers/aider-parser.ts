@@ -0,0 +1,74 @@
+import * as path from 'path'
+import { BaseParser, LogMode } from './base-parser.js'
+import { ParsedMessage, SessionMetadata } from '../types/config.js'
+
+/**
+ * Parser for Aider's markdown transcript (.aider.chat.history.md in the project root)
+ *
+ * Each run starts with a `# aider chat started at ...` header. Lines starting
+ * with `#### ` are the user's prompt, lines starting with `> ` are Aider's own
+ * output (commands, edits applied, commits), and everything else is the
+ * model's reply. Aider ends each of its own lines with two spaces, which tells
+ * them apart from a quote inside the reply. The transcript doesn't record a
+ * cwd, so the directory it lives in is used, or when each message was written,
+ * so messages have no timestamp. The model comes from the `> Model:` line Aider
+ * prints at startup.
+ */
+export class AiderParser extends BaseParser {
+  getLogMode(): LogMode {
+    // Aider appends to the transcript
+    return 'append'
+  }
+
+  parse(content: string, filePath?: string, session: SessionMetadata = {}): ParsedMessage[] {
+    const messages: ParsedMessage[] = []
+    session.cwd = session.cwd || (filePath ? path.dirname(filePath) : undefined)
+
+    let role: 'user' | 'assistant' | null = null
+    let lines: string[] = []
+
+    const flush = () => {
+      const text = lines.join('\n').trim()
+      if (role && text) {
+        messages.push({ role, content: text, ...session })
+      }
+      role = null
+      lines = []
+    }
+
+    for (const line of content.split('\n')) {
+      if (line.startsWith('# aider chat started at ')) {
+        flush()
+        continue
+      }
+
+      if (line.startsWith('#### ')) {
+        // A multi-line prompt is written as consecutive `#### ` lines
+        if (role !== 'user') flush()
+        role = 'user'
+        lines.push(line.slice(5))
+        continue
+      }
+
+      // Aider's own output ends the current turn, a quote in the model's reply doesn't
+      if (line.startsWith('>') && (role !== 'assistant' || line.endsWith('  '))) {
+        flush()
+        const model = line.match(/^> (?:Main )?[Mm]odel: (\S+)/)
+        if (model) {
+          session.model = model[1]
+        }
+        continue
+      }
+
+      if (role !== 'assistant') {
+        if (!line.trim()) continue
+        flush()
+        role = 'assistant'
+      }
+      lines.push(line)
+    }
+    flush()
+
+    return messages
+  }
+}
@@ -1,14 +1,26 @@
-import { ParsedMessage } from '../types/config.js'
+import { ParsedMessage, SessionMetadata } from '../types/config.js'
 
-export type LogMode = 'append' | 'new'
+export type LogMode = 'append' | 'new' | 'rewrite'
 
 export abstract class BaseParser {
-  abstract parse(content: string): ParsedMessage[] | Promise<ParsedMessage[]>
+  /**
+   * Parse messages from the content of a log file, or the part appended to it
+   *
+   * `session` holds what earlier parts of the same file said about the session
+   * (cwd, session id, branch, model). Parsers update it as they read and copy
+   * it onto every message, so a chunk without that information still has it.
+   */
+  abstract parse(
+    content: string,
+    filePath?: string,
+    session?: SessionMetadata,
+  ): ParsedMessage[] | Promise<ParsedMessage[]>
 
   /**
    * Returns the log mode for this parser
    * - 'append': Log file is appended to (like Claude Code)
    * - 'new': Each message creates a new file (like OpenCode)
+   * - 'rewrite': The whole file is rewritten as the session grows (like Gemini CLI)
    */
   getLogMode(): LogMode {
     // Default to 'new' for safety - won't process existing files unnecessarily
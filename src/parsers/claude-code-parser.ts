@@ -1,35 +1,45 @@
 import { BaseParser, LogMode } from './base-parser.js'
-import { ParsedMessage } from '../types/config.js'
+import { ParsedMessage, SessionMetadata } from '../types/config.js'
 import type { Message, TextBlock } from '@anthropic-ai/sdk/resources/messages'
 import { extractImagesFromMessage, extractVisionImages } from '../utils/image-extractor.js'
 
+// The session details a line of the log carries
+interface SessionLine {
+  cwd?: string
+  sessionId?: string
+  gitBranch?: string
+  message?: { role?: string; model?: string }
+}
+
 export class ClaudeCodeParser extends BaseParser {
   getLogMode(): LogMode {
     // Claude Code appends to a single JSONL file
     return 'append'
   }
 
-  async parse(content: string): Promise<ParsedMessage[]> {
+  async parse(content: string, _filePath?: string, session: SessionMetadata = {}): Promise<ParsedMessage[]> {
     const messages: ParsedMessage[] = []
     const lines = content.split('\n').filter((line) => line.trim())
 
-    // Try to find cwd from the first message that has it
-    let cwd: string | undefined
-    for (const line of lines) {
-      try {
-        const data = JSON.parse(line)
-        if (data.cwd) {
-          cwd = data.cwd
-          break
+    // Messages before the file's first line with a cwd belong to that directory too
+    if (!session.cwd) {
+      for (const line of lines) {
+        try {
+          const data = JSON.parse(line)
+          if (data.cwd) {
+            session.cwd = data.cwd
+            break
+          }
+        } catch {
+          // Skip invalid JSON
         }
-      } catch {
-        // Skip invalid JSON
       }
     }
 
     for (const line of lines) {
       try {
         const data = JSON.parse(line)
+        this.updateSession(session, data)
 
         // Process both user and assistant messages
         if (data.type === 'user' && data.message && data.message.role === 'user') {
@@ -85,7 +95,7 @@ export class ClaudeCodeParser extends BaseParser {
             role: 'user',
             content: content,
             timestamp,
-            cwd: data.cwd || cwd,
+            ...session,
             images: imagePaths.length > 0 ? imagePaths : undefined,
           })
         } else if (data.type === 'assistant' && data.message) {
@@ -113,7 +123,7 @@ export class ClaudeCodeParser extends BaseParser {
             role: 'assistant',
             content: text,
             timestamp,
-            cwd: data.cwd || cwd, // Use message-specific cwd if available, otherwise use the file-level cwd
+            ...session,
             images: visionImages.length > 0 ? visionImages : undefined,
           })
         }
@@ -126,6 +136,16 @@ export class ClaudeCodeParser extends BaseParser {
     return messages
   }
 
+  private updateSession(session: SessionMetadata, data: SessionLine): void {
+    session.cwd = data.cwd || session.cwd
+    session.sessionId = data.sessionId || session.sessionId
+    session.gitBranch = data.gitBranch || session.gitBranch
+    // Messages Claude Code made up itself, e.g. for errors, have the model "<synthetic>"
+    if (data.message?.role === 'assistant' && data.message.model && data.message.model !== '<synthetic>') {
+      session.model = data.message.model
+    }
+  }
+
   private extractTextFromMessage(message: Message): string {
     if (!message.content || !Array.isArray(message.content)) {
       return ''
@@ -0,0 +1,124 @@
+import { BaseParser, LogMode } from './base-parser.js'
+import { ParsedMessage, SessionMetadata } from '../types/config.js'
+import {
+  Base64ImageBlock,
+  dataUrlToImageBlock,
+  extractImagesFromMessage,
+  extractVisionImages,
+} from '../utils/image-extractor.js'
+
+// A block of a message's content, e.g. `{ type: 'output_text', text }` or `{ type: 'input_image', image_url }`
+interface CodexContentBlock {
+  type?: string
+  text?: unknown
+  image_url?: unknown
+}
+
+/**
+ * Parser for OpenAI Codex CLI session rollouts (~/.codex/sessions/YYYY/MM/DD/rollout-*.jsonl)
+ *
+ * Each line is a `{ timestamp, type, payload }` record. The session's id, cwd, branch
+ * and model come from the `session_meta` and `turn_context` records, and the conversation from
+ * `response_item` records whose payload is a user or assistant `message`. Older
+ * rollouts wrote the response items as bare lines, which are handled as well.
+ */
+export class CodexParser extends BaseParser {
+  getLogMode(): LogMode {
+    // Codex appends to one rollout file per session
+    return 'append'
+  }
+
+  async parse(content: string, _filePath?: string, session: SessionMetadata = {}): Promise<ParsedMessage[]> {
+    const messages: ParsedMessage[] = []
+    const lines = content.split('\n').filter((line) => line.trim())
+
+    for (const line of lines) {
+      try {
+        const data = JSON.parse(line)
+
+        // These are only recorded when a session or turn starts, so carry them along
+        if (data.type === 'session_meta') {
+          session.sessionId = data.payload?.id || session.sessionId
+          session.cwd = data.payload?.cwd || session.cwd
+          session.gitBranch = data.payload?.git?.branch || session.gitBranch
+          continue
+        }
+        if (data.type === 'turn_context') {
+          session.cwd = data.payload?.cwd || session.cwd
+          session.model = data.payload?.model || session.model
+          continue
+        }
+
+        // Current rollouts wrap response items, older ones wrote them directly
+        const item = data.type === 'response_item' ? data.payload : data
+        if (item?.type !== 'message' || !Array.isArray(item.content)) continue
+
+        const timestamp = data.timestamp ? new Date(data.timestamp) : new Date()
+
+        if (item.role === 'user') {
+          const text = this.extractText(item.content, 'input_text')
+
+          // Codex injects the environment and AGENTS.md instructions as user messages
+          const environmentCwd = text.match(/^<environment_context>[\s\S]*?<cwd>(.*?)<\/cwd>/)
+          if (environmentCwd) {
+            session.cwd = environmentCwd[1]
+            continue
+          }
+          if (!text.trim() || this.isInjectedContext(text)) continue
+
+          const imagePaths = await extractImagesFromMessage(this.toImageBlocks(item.content))
+
+          messages.push({
+            role: 'user',
+            content: text,
+            timestamp,
+            ...session,
+            images: imagePaths.length > 0 ? imagePaths : undefined,
+          })
+        } else if (item.role === 'assistant') {
+          const text = this.extractText(item.content, 'output_text')
+          if (!text.trim()) continue
+
+          // Extract vision images from <vision> tags in assistant message
+          const visionImages = await extractVisionImages(text)
+
+          messages.push({
+            role: 'assistant',
+            content: text,
+            timestamp,
+            ...session,
+            images: visionImages.length > 0 ? visionImages : undefined,
+          })
+        }
+        // Skip reasoning, function calls and their output, etc.
+      } catch (error) {
+        // Skip invalid JSON lines
+        console.log(`[CodexParser] Skipping invalid JSON line: ${error}`)
+      }
+    }
+
+    return messages
+  }
+
+  private extractText(content: CodexContentBlock[], type: 'input_text' | 'output_text'): string {
+    return content
+      .flatMap((block) => (block?.type === type && typeof block.text === 'string' ? [block.text] : []))
+      .join('\n\n')
+  }
+
+  private isInjectedContext(text: string): boolean {
+    return (
+      /^\s*<(environment_context|user_instructions|user_shell_command)>/.test(text) || text.startsWith('# AGENTS.md')
+    )
+  }
+
+  // Convert Codex's data URL images into the content blocks the image extractor understands
+  private toImageBlocks(content: CodexContentBlock[]): Base64ImageBlock[] {
+    return content
+      .flatMap((block) =>
+        block?.type === 'input_image' && typeof block.image_url === 'string' ? [block.image_url] : [],
+      )
+      .map(dataUrlToImageBlock)
+      .filter((block) => block !== null)
+  }
+}
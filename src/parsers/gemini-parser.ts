@@ -0,0 +1,132 @@
+import * as path from 'path'
+import { BaseParser, LogMode } from './base-parser.js'
+import { ParsedMessage, SessionMetadata } from '../types/config.js'
+
+// A record of a session file or the prompt log, or an entry of a checkpoint
+interface GeminiRecord {
+  type?: string // 'user' or 'gemini', in session files and the prompt log
+  role?: string // 'user' or 'model', in checkpoints
+  content?: unknown
+  message?: unknown
+  parts?: unknown
+  sessionId?: string
+  model?: string
+  timestamp?: string
+}
+
+interface GeminiSessionFile {
+  cwd?: string
+  projectRoot?: string
+  sessionId?: string
+  messages?: (GeminiRecord | null)[]
+}
+
+interface GeminiPart {
+  text?: unknown
+  thought?: boolean
+}
+
+/**
+ * Parser for Gemini CLI logs under ~/.gemini/tmp/<project hash>/
+ *
+ * Understands the three JSON files Gemini CLI keeps there:
+ * - chats/session-*.json: `{ sessionId, messages: [{ type: 'user' | 'gemini', content, timestamp }] }`
+ * - checkpoint-*.json: the raw conversation, `[{ role: 'user' | 'model', parts: [{ text }] }]`
+ * - logs.json: the user's prompts only, `[{ type: 'user', message, timestamp }]`
+ *
+ * Gemini CLI records the project by its hash only, so cwd is the project's
+ * directory under ~/.gemini/tmp unless the log names one.
+ */
+export class GeminiParser extends BaseParser {
+  getLogMode(): LogMode {
+    // Gemini CLI rewrites the whole JSON file as the session grows
+    return 'rewrite'
+  }
+
+  parse(content: string, filePath?: string, session: SessionMetadata = {}): ParsedMessage[] {
+    let data: GeminiSessionFile | (GeminiRecord | null)[] | null
+    try {
+      data = JSON.parse(content)
+    } catch (error) {
+      // The file may be caught mid-write, the next change event will have all of it
+      console.log(`[GeminiParser] Skipping invalid JSON file: ${error}`)
+      return []
+    }
+
+    const file: GeminiSessionFile = (!Array.isArray(data) && data) || {}
+    session.cwd = file.cwd || file.projectRoot || session.cwd || this.getProjectDirectory(filePath)
+    session.sessionId = file.sessionId || session.sessionId
+
+    if (Array.isArray(file.messages)) {
+      return this.parseSession(file.messages, session)
+    }
+    if (Array.isArray(data)) {
+      return data.some((item) => Array.isArray(item?.parts))
+        ? this.parseCheckpoint(data, session)
+        : this.parseSession(data, session)
+    }
+
+    console.log(`[GeminiParser] Unrecognized log format`)
+    return []
+  }
+
+  private parseSession(records: (GeminiRecord | null)[], session: SessionMetadata): ParsedMessage[] {
+    const messages: ParsedMessage[] = []
+
+    for (const record of records) {
+      // Skip info, error and warning records
+      const role = record?.type === 'user' ? 'user' : record?.type === 'gemini' ? 'assistant' : null
+      if (!record || !role) continue
+
+      // logs.json calls the text `message`, session files `content`
+      const text = this.extractText(record.content ?? record.message)
+      if (!text.trim()) continue
+
+      // The prompt log names the session on every record
+      session.sessionId = record.sessionId || session.sessionId
+      session.model = record.model || session.model
+
+      messages.push({
+        role,
+        content: text,
+        timestamp: record.timestamp ? new Date(record.timestamp) : new Date(),
+        ...session,
+      })
+    }
+
+    return messages
+  }
+
+  private parseCheckpoint(contents: (GeminiRecord | null)[], session: SessionMetadata): ParsedMessage[] {
+    const messages: ParsedMessage[] = []
+
+    for (const item of contents) {
+      const role = item?.role === 'user' ? 'user' : item?.role === 'model' ? 'assistant' : null
+      if (!item || !role) continue
+
+      // Function calls and responses have no text parts
+      const text = this.extractText(item.parts)
+      if (!text.trim()) continue
+
+      messages.push({ role, content: text, timestamp: new Date(), ...session })
+    }
+
+    return messages
+  }
+
+  private extractText(content: unknown): string {
+    if (typeof content === 'string') return content
+    if (!Array.isArray(content)) return ''
+
+    return content
+      .flatMap((part: GeminiPart | null) => (part && typeof part.text === 'string' && !part.thought ? [part.text] : []))
+      .join('\n\n')
+  }
+
+  // ~/.gemini/tmp/<project hash>/chats/session-*.json -> ~/.gemini/tmp/<project hash>
+  private getProjectDirectory(filePath?: string): string | undefined {
+    if (!filePath) return undefined
+    const directory = path.dirname(filePath)
+    return path.basename(directory) === 'chats' ? path.dirname(directory) : directory
+  }
+}
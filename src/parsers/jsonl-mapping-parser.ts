@@ -0,0 +1,118 @@
+import { BaseParser, LogMode } from './base-parser.js'
+import { JsonlMappingConfig, JsonlSkipRule, ParsedMessage, SessionMetadata } from '../types/config.js'
+import { getJsonPath } from '../utils/json-path.js'
+import { dataUrlToImageBlock, extractImagesFromMessage } from '../utils/image-extractor.js'
+
+/**
+ * Parser for JSONL logs described in the config instead of code
+ *
+ * Each line is one JSON record. The mapping says where to find the role, text,
+ * timestamp, session details and images, and which lines to skip. Session
+ * details are carried over to later lines, like the built-in parsers do.
+ */
+export class JsonlMappingParser extends BaseParser {
+  constructor(private mapping: JsonlMappingConfig) {
+    super()
+  }
+
+  getLogMode(): LogMode {
+    return this.mapping.logMode ?? 'append'
+  }
+
+  async parse(content: string, _filePath?: string, session: SessionMetadata = {}): Promise<ParsedMessage[]> {
+    const messages: ParsedMessage[] = []
+    const lines = content.split('\n').filter((line) => line.trim())
+
+    for (const line of lines) {
+      let data: unknown
+      try {
+        data = JSON.parse(line)
+      } catch (error) {
+        // Skip invalid JSON lines
+        console.log(`[JsonlMappingParser] Skipping invalid JSON line: ${error}`)
+        continue
+      }
+
+      for (const field of ['cwd', 'sessionId', 'gitBranch', 'model'] as const) {
+        const path = this.mapping[field]
+        const value = path ? getJsonPath(data, path) : undefined
+        if (typeof value === 'string' && value) {
+          session[field] = value
+        }
+      }
+
+      if (this.mapping.skip?.some((rule) => this.matchesSkipRule(data, rule))) continue
+
+      const role = this.getRole(getJsonPath(data, this.mapping.role))
+      if (!role) continue
+
+      const text = this.extractText(getJsonPath(data, this.mapping.text))
+      if (!text.trim()) continue
+
+      const images = this.mapping.images ? await this.extractImages(getJsonPath(data, this.mapping.images)) : []
+
+      messages.push({
+        role,
+        content: text,
+        timestamp: this.parseTimestamp(this.mapping.timestamp ? getJsonPath(data, this.mapping.timestamp) : undefined),
+        ...session,
+        images: images.length > 0 ? images : undefined,
+      })
+    }
+
+    return messages
+  }
+
+  private getRole(value: unknown): 'user' | 'assistant' | null {
+    if (typeof value !== 'string') return null
+    if (this.mapping.roles) return this.mapping.roles[value] ?? null
+    return value === 'user' || value === 'assistant' ? value : null
+  }
+
+  private matchesSkipRule(data: unknown, rule: JsonlSkipRule): boolean {
+    const value = getJsonPath(data, rule.path)
+    // A wildcard path matches if any of the values found does
+    const values = Array.isArray(value) && rule.path.includes('*') ? value : [value]
+
+    if (rule.exists !== undefined) {
+      return values.some((v) => v !== undefined) === rule.exists
+    }
+    if (rule.matches !== undefined) {
+      const pattern = new RegExp(rule.matches)
+      return values.some((v) => v !== undefined && v !== null && pattern.test(String(v)))
+    }
+    return values.some((v) => v === rule.equals)
+  }
+
+  private extractText(value: unknown): string {
+    if (typeof value === 'string') return value
+    if (!Array.isArray(value)) return ''
+
+    // Content blocks without text, like tool calls, are left out
+    return value
+      .map((item) => (typeof item === 'string' ? item : typeof item?.text === 'string' ? item.text : ''))
+      .filter((text) => text.trim())
+      .join('\n\n')
+  }
+
+  private parseTimestamp(value: unknown): Date {
+    if (typeof value === 'number') {
+      // Epoch seconds are before 1973 when read as milliseconds
+      return new Date(value < 1e11 ? value * 1000 : value)
+    }
+    if (typeof value === 'string') {
+      const date = new Date(value)
+      if (!isNaN(date.getTime())) return date
+    }
+    return new Date()
+  }
+
+  private async extractImages(value: unknown): Promise<string[]> {
+    if (value === undefined || value === null) return []
+
+    const blocks = (Array.isArray(value) ? value : [value])
+      .map((item) => (typeof item === 'string' ? dataUrlToImageBlock(item) : item))
+      .filter((block) => block && typeof block === 'object')
+    return extractImagesFromMessage(blocks)
+  }
+}
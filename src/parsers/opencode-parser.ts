@@ -31,8 +31,9 @@ export class OpenCodeParser extends BaseParser {
               const messageContent = fs.readFileSync(messagePath, 'utf-8')
               const messageData = JSON.parse(messageContent)
 
-              // Extract cwd from the message file
+              // Extract cwd and the model from the message file
               const cwd = messageData.path?.cwd
+              const model = messageData.modelID
 
               // Get timestamp - use part time if available and non-zero, otherwise use message createdAt or file creation time
               const getTimestamp = () => {
@@ -63,6 +64,8 @@ export class OpenCodeParser extends BaseParser {
                   content: partMessage.text,
                   timestamp: timestamp,
                   cwd: cwd,
+                  sessionId,
+                  model,
                 })
                 console.log(
                   `[OpenCodeParser] Processing assistant message with cwd: ${cwd}, timestamp: ${timestamp.toISOString()}`,
@@ -73,6 +76,8 @@ export class OpenCodeParser extends BaseParser {
                   content: partMessage.text,
                   timestamp: timestamp,
                   cwd: cwd,
+                  sessionId,
+                  model,
                 })
                 console.log(
                   `[OpenCodeParser] Processing user message with cwd: ${cwd}, timestamp: ${timestamp.toISOString()}`,
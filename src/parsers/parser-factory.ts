@@ -3,6 +3,10 @@ import { ClaudeCodeParser } from './claude-code-parser.js'
 import { OpenCodeParser } from './opencode-parser.js'
 import { ParserConfig, ParsedMessage } from '../types/config.js'
 import { ClaudiaCodeParser } from './claudia-code-parser.js'
+import { CodexParser } from './codex-parser.js'
+import { GeminiParser } from './gemini-parser.js'
+import { AiderParser } from './aider-parser.js'
+import { JsonlMappingParser } from './jsonl-mapping-parser.js'
 
 export class ParserFactory {
   static createParser(config: ParserConfig): BaseParser {
@@ -17,6 +21,21 @@ export class ParserFactory {
       case 'opencode':
         return new OpenCodeParser()
 
+      case 'codex':
+        return new CodexParser()
+
+      case 'gemini':
+        return new GeminiParser()
+
+      case 'aider':
+        return new AiderParser()
+
+      case 'jsonl-mapping':
+        if (!config.mapping) {
+          throw new Error('JSONL mapping parser requires a mapping')
+        }
+        return new JsonlMappingParser(config.mapping)
+
       case 'custom':
         if (!config.customParser) {
           throw new Error('Custom parser requires a customParser function')
@@ -30,11 +49,11 @@ export class ParserFactory {
 }
 
 class CustomParser extends BaseParser {
-  constructor(private customParserFn: (content: string) => ParsedMessage[]) {
+  constructor(private customParserFn: (content: string, filePath?: string) => ParsedMessage[]) {
     super()
   }
 
-  parse(content: string): ParsedMessage[] {
-    return this.customParserFn(content)
+  parse(content: string, filePath?: string): ParsedMessage[] {
+    return this.customParserFn(content, filePath)
   }
 }
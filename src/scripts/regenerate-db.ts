@@ -7,6 +7,10 @@ import { glob } from 'glob'
 import { ClaudeCodeParser } from '../parsers/claude-code-parser.js'
 import { ClaudiaCodeParser } from '../parsers/claudia-code-parser.js'
 import { OpenCodeParser } from '../parsers/opencode-parser.js'
+import { CodexParser } from '../parsers/codex-parser.js'
+import { GeminiParser } from '../parsers/gemini-parser.js'
+import { AiderParser } from '../parsers/aider-parser.js'
+import { JsonlMappingParser } from '../parsers/jsonl-mapping-parser.js'
 import { FilterChain } from '../filters/filter-chain.js'
 import { ParsedMessage, ProfileConfig } from '../types/config.js'
 import { AGENT_TTS_PATHS } from '../utils/xdg-paths.js'
@@ -132,6 +136,14 @@ async function regenerateDatabase() {
       parser = new ClaudiaCodeParser()
     } else if (profile.parser.type === 'opencode') {
       parser = new OpenCodeParser()
+    } else if (profile.parser.type === 'codex') {
+      parser = new CodexParser()
+    } else if (profile.parser.type === 'gemini') {
+      parser = new GeminiParser()
+    } else if (profile.parser.type === 'aider') {
+      parser = new AiderParser()
+    } else if (profile.parser.type === 'jsonl-mapping' && profile.parser.mapping) {
+      parser = new JsonlMappingParser(profile.parser.mapping)
     } else {
       console.log(`  Unknown parser type: ${profile.parser.type}, skipping`)
       continue
@@ -5,8 +5,8 @@ export function setupApiRoutes(app: Express, coordinator: AppCoordinator) {
   // TTS Control endpoints
   app.post('/api/tts/pause', async (req: Request, res: Response) => {
     try {
-      await coordinator.pausePlayback()
-      res.json({ success: true, message: 'Playback paused' })
+      const paused = await coordinator.pausePlayback()
+      res.json({ success: true, message: 'Playback paused', paused })
     } catch (error) {
       res.status(500).json({ success: false, error: (error as Error).message })
     }
@@ -39,6 +39,61 @@ export function setupApiRoutes(app: Express, coordinator: AppCoordinator) {
     }
   })
 
+  // Queue
+  app.get('/api/queue', async (req: Request, res: Response) => {
+    try {
+      res.json({ success: true, queue: coordinator.getQueue() })
+    } catch (error) {
+      res.status(500).json({ success: false, error: (error as Error).message })
+    }
+  })
+
+  // Move a queued message to a position, 0 being next
+  app.post('/api/queue/:id/move', async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id)
+      const position = parseInt(req.body?.position)
+      if (isNaN(position)) {
+        res.status(400).json({ success: false, error: 'position must be a number' })
+        return
+      }
+      if (!coordinator.moveInQueue(id, position)) {
+        res.status(404).json({ success: false, error: `Entry ${id} is not queued` })
+        return
+      }
+      res.json({ success: true, queue: coordinator.getQueue() })
+    } catch (error) {
+      res.status(500).json({ success: false, error: (error as Error).message })
+    }
+  })
+
+  // Play a queued message next
+  app.post('/api/queue/:id/promote', async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id)
+      if (!coordinator.promoteInQueue(id)) {
+        res.status(404).json({ success: false, error: `Entry ${id} is not queued` })
+        return
+      }
+      res.json({ success: true, queue: coordinator.getQueue() })
+    } catch (error) {
+      res.status(500).json({ success: false, error: (error as Error).message })
+    }
+  })
+
+  app.delete('/api/queue/:id', async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id)
+      if (!coordinator.removeFromQueue(id)) {
+        res.status(404).json({ success: false, error: `Entry ${id} is not queued` })
+        return
+      }
+      res.json({ success: true, queue: coordinator.getQueue() })
+    } catch (error) {
+      res.status(500).json({ success: false, error: (error as Error).message })
+    }
+  })
+
   // Profile management
   app.get('/api/profiles', async (req: Request, res: Response) => {
     try {
@@ -106,6 +161,17 @@ export function setupApiRoutes(app: Express, coordinator: AppCoordinator) {
     }
   })
 
+  // Retry all errored entries, optionally for a single profile
+  app.post('/api/logs/retry-errors', async (req: Request, res: Response) => {
+    try {
+      const profile = req.query.profile as string | undefined
+      const count = await coordinator.retryErroredLogs(profile)
+      res.json({ success: true, count })
+    } catch (error) {
+      res.status(500).json({ success: false, error: (error as Error).message })
+    }
+  })
+
   // Toggle favorite status
   app.post('/api/logs/:id/favorite', async (req: Request, res: Response) => {
     try {
@@ -12,6 +12,8 @@ import { setupApiRoutes } from './api/index.js'
 import { setupWebSocket } from './websocket.js'
 import { replaceConsoleWithLogger } from '../services/logger.js'
 import { AGENT_TTS_PATHS } from '../utils/xdg-paths.js'
+import { AUDIO_CACHE_DIR } from '../utils/audio-cache.js'
+import { getAudioMimeType } from '../utils/audio.js'
 
 const __filename = fileURLToPath(import.meta.url)
 const __dirname = path.dirname(__filename)
@@ -62,9 +64,17 @@ async function startServer() {
     setupApiRoutes(app, appCoordinator)
 
     // Serve audio files from cache directory
-    const audioPath = path.join(AGENT_TTS_PATHS.cache, 'audio')
+    const audioPath = AUDIO_CACHE_DIR
     console.log('Audio files path:', path.resolve(audioPath))
-    app.use('/audio', express.static(audioPath))
+    app.use(
+      '/audio',
+      express.static(audioPath, {
+        // Use the same MIME types the queue records, including formats like opus and pcm
+        setHeaders: (res, filePath) => {
+          res.setHeader('Content-Type', getAudioMimeType(path.extname(filePath).slice(1)))
+        },
+      }),
+    )
 
     // Serve images with priority: user images first, then public images as fallback
     // Serve cached images (from chat logs) at /images/*
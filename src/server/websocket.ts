@@ -28,8 +28,19 @@ export function setupWebSocket(wss: WebSocketServer, coordinator: AppCoordinator
     broadcastToAll('queue-updated', queue)
   })
 
+  // Audio for the browsers to play when the playback target includes them
+  coordinator.on('play-audio', (request) => {
+    console.log(`[WebSocket] Broadcasting play-audio ${request.requestId} to all clients`)
+    broadcastToAll('play-audio', request)
+  })
+
+  for (const type of ['pause-audio', 'resume-audio', 'stop-audio']) {
+    coordinator.on(type, (request) => broadcastToAll(type, request))
+  }
+
   wss.on('connection', (ws: WebSocket) => {
     console.log('WebSocket client connected')
+    coordinator.setBrowserClients(wss.clients.size)
 
     // Send initial status
     coordinator.getStatus().then((status) => {
@@ -56,6 +67,15 @@ export function setupWebSocket(wss: WebSocketServer, coordinator: AppCoordinator
             ws.send(JSON.stringify({ type: 'logs', data: logs }))
             break
 
+          case 'playback-started':
+          case 'playback-ended':
+            coordinator.acknowledgePlayback(
+              data.data?.requestId,
+              data.type === 'playback-started' ? 'started' : 'ended',
+              data.data?.error,
+            )
+            break
+
           default:
             ws.send(JSON.stringify({ type: 'error', error: 'Unknown message type' }))
         }
@@ -68,6 +88,7 @@ export function setupWebSocket(wss: WebSocketServer, coordinator: AppCoordinator
     // Cleanup on disconnect
     ws.on('close', () => {
       console.log('WebSocket client disconnected')
+      coordinator.setBrowserClients(wss.clients.size)
     })
 
     ws.on('error', (error) => {
@@ -1,11 +1,25 @@
 import { EventEmitter } from 'events'
 import { homedir } from 'os'
-import { AgentTTSConfig, ProfileConfig } from '../types/config.js'
+import { AgentTTSConfig, ProfileConfig, RestoreQueueConfig } from '../types/config.js'
 import { DatabaseManager } from './database.js'
 import { FileMonitor } from './file-monitor.js'
 import { MessageProcessor } from './message-processor.js'
-import { TTSQueueProcessor, QueuedMessage } from './tts-queue.js'
+import { TTSQueueProcessor, QueuedMessage, PauseState } from './tts-queue.js'
 import { SettingsRepository } from '../database/settings.js'
+import { AudioJanitor } from './audio-janitor.js'
+import { MessageCoalescer } from './message-coalescer.js'
+import { TTSLogRecord } from '../database/tts-log.js'
+import { getPrimaryTTSServiceConfig } from '../utils/tts-config.js'
+import { getLegacyAudioPath } from '../utils/audio-cache.js'
+import { getActiveQuietHours, isValidQuietHoursRule } from '../utils/quiet-hours.js'
+
+export interface QueueItem {
+  id?: number
+  timestamp: Date
+  profile: string
+  filteredText: string
+  cwd?: string
+}
 
 /**
  * Coordinates all the services in the application
@@ -16,8 +30,12 @@ export class AppCoordinator extends EventEmitter {
   private messageProcessor: MessageProcessor
   private ttsQueue: TTSQueueProcessor
   private settings: SettingsRepository
+  private audioJanitor: AudioJanitor
+  private coalescer: MessageCoalescer
   private config: AgentTTSConfig | null = null
   private serverBaseUrl: string = ''
+  private queueRestored = false
+  private mergedEntries: Map<number, number[]> = new Map() // Merged message id -> ids of the messages merged into it
 
   constructor() {
     super()
@@ -26,6 +44,8 @@ export class AppCoordinator extends EventEmitter {
     this.messageProcessor = new MessageProcessor(this.database)
     this.ttsQueue = new TTSQueueProcessor(this.database)
     this.settings = new SettingsRepository()
+    this.audioJanitor = new AudioJanitor(this.database)
+    this.coalescer = new MessageCoalescer()
 
     this.setupEventHandlers()
   }
@@ -35,10 +55,8 @@ export class AppCoordinator extends EventEmitter {
     console.log('[AppCoordinator] Server base URL set to:', baseUrl)
   }
 
-  private getAudioUrl(profile: string, timestamp: Date): string {
-    const dateStr = timestamp.toISOString().split('T')[0] // YYYY-MM-DD
-    const epochTimestamp = Math.floor(timestamp.getTime() / 1000)
-    const path = `/audio/${dateStr}/${profile}-${epochTimestamp}.mp3`
+  private getAudioUrl(profile: string, timestamp: Date, audioPath?: string): string {
+    const path = `/audio/${audioPath ?? getLegacyAudioPath(profile, timestamp)}`
 
     // Only include full URL in development mode (when client and server are on different ports)
     const isDevelopment = process.env.NODE_ENV !== 'production'
@@ -63,6 +81,7 @@ export class AppCoordinator extends EventEmitter {
       )
 
       // Emit log-added event for WebSocket clients
+      const ttsService = getPrimaryTTSServiceConfig(message.profileConfig)
       const logEntry = {
         id: message.id,
         timestamp: message.timestamp,
@@ -72,11 +91,12 @@ export class AppCoordinator extends EventEmitter {
         filteredText: message.filteredText,
         status: 'queued',
         cwd: this.replaceHomeWithTilde(message.cwd),
-        avatarUrl: message.profileConfig?.ttsService?.avatarUrl,
-        profileUrl: message.profileConfig?.ttsService?.profileUrl,
-        voiceName: message.profileConfig?.ttsService?.voiceName,
+        avatarUrl: ttsService?.avatarUrl,
+        profileUrl: ttsService?.profileUrl,
+        voiceName: ttsService?.voiceName,
         role: message.role,
-        audioUrl: this.getAudioUrl(message.profile, message.timestamp),
+        audioUrl: message.audioPath && this.getAudioUrl(message.profile, message.timestamp, message.audioPath),
+        audioMimeType: message.audioMimeType,
         images: message.images,
       }
       this.emit('log-added', logEntry)
@@ -86,17 +106,43 @@ export class AppCoordinator extends EventEmitter {
       console.log(`[AppCoordinator] Profile ${message.profile} enabled: ${isEnabled}`)
 
       if (isEnabled) {
-        this.ttsQueue.addToQueue(message)
+        this.coalescer.add(message)
       } else {
         console.log(`[AppCoordinator] Skipping message - profile disabled`)
       }
     })
 
+    // A burst of messages from one session is spoken once. The rest keep their log rows.
+    this.coalescer.on('ready', (message: QueuedMessage, replaced: QueuedMessage[]) => {
+      // Messages replaced by one held for quiet hours are expired with it
+      const held = this.holdForQuietHours(message)
+      const ids = replaced.map((entry) => entry.id).filter((id): id is number => id !== undefined)
+
+      if (!held && message.id && message.profileConfig.coalesce?.mode === 'merge') {
+        // Merged messages stay queued until the message they were merged into is done.
+        // Its row keeps what was spoken, so the log and replays have all of it.
+        this.mergedEntries.set(message.id, ids)
+        if (ids.length > 0) {
+          this.database.updateTTSQueueEntry(message.id, { filteredText: message.filteredText })
+        }
+      } else {
+        for (const id of ids) {
+          this.database.updateTTSQueueEntry(id, {
+            state: 'expired',
+            apiResponseMessage: `Skipped for entry ${message.id}`,
+          })
+          this.emit('status-changed', { expiredId: id })
+        }
+      }
+      if (!held) this.ttsQueue.addToQueue(message)
+    })
+
     // Handle user messages (logged but not queued for TTS)
     this.messageProcessor.on('messageLogged', async (message: QueuedMessage) => {
       console.log(`[AppCoordinator] User message logged from profile: ${message.profile}`)
 
       // Emit log-added event for WebSocket clients
+      const ttsService = getPrimaryTTSServiceConfig(message.profileConfig)
       const logEntry = {
         id: message.id,
         timestamp: message.timestamp,
@@ -106,11 +152,12 @@ export class AppCoordinator extends EventEmitter {
         filteredText: message.filteredText,
         status: 'user',
         cwd: this.replaceHomeWithTilde(message.cwd),
-        avatarUrl: message.profileConfig?.ttsService?.avatarUrl,
-        profileUrl: message.profileConfig?.ttsService?.profileUrl,
-        voiceName: message.profileConfig?.ttsService?.voiceName,
+        avatarUrl: ttsService?.avatarUrl,
+        profileUrl: ttsService?.profileUrl,
+        voiceName: ttsService?.voiceName,
         role: 'user',
-        audioUrl: this.getAudioUrl(message.profile, message.timestamp),
+        audioUrl: message.audioPath && this.getAudioUrl(message.profile, message.timestamp, message.audioPath),
+        audioMimeType: message.audioMimeType,
         images: message.images,
       }
       this.emit('log-added', logEntry)
@@ -129,15 +176,49 @@ export class AppCoordinator extends EventEmitter {
 
     this.ttsQueue.on('played', (message) => {
       console.log(`[AppCoordinator] TTS played successfully`)
+      this.settleMergedEntries(message, 'played', `Spoken together with entry ${message.id}`)
       this.emit('ttsPlayed', message)
       this.emit('status-changed', {
         playing: false,
         playedId: message.id,
+        ttsFallback: message.ttsFallback,
+        audioUrl: message.audioPath && this.getAudioUrl(message.profile, message.timestamp, message.audioPath),
+        audioMimeType: message.audioMimeType,
+      })
+    })
+
+    // Hand audio to the dashboards when they do the playing
+    this.ttsQueue.on('browser-play', ({ requestId, audioPath, audioMimeType, message }) => {
+      this.emit('play-audio', {
+        requestId,
+        id: message?.id,
+        profile: message?.profile,
+        audioUrl: this.getAudioUrl(message?.profile, message?.timestamp, audioPath),
+        audioMimeType,
       })
     })
 
+    for (const event of ['pause', 'resume', 'stop']) {
+      this.ttsQueue.on(`browser-${event}`, (requestId) => {
+        this.emit(`${event}-audio`, { requestId })
+      })
+    }
+
+    this.ttsQueue.on('expired', (message) => {
+      this.settleMergedEntries(message, 'expired', `Not spoken, entry ${message.id} expired`)
+      this.emit('status-changed', { expiredId: message.id })
+    })
+
+    this.ttsQueue.on('queue-updated', (queue: QueuedMessage[]) => {
+      this.emit(
+        'queue-updated',
+        queue.map((message) => this.toQueueItem(message)),
+      )
+    })
+
     this.ttsQueue.on('error', ({ message, error }) => {
       console.error(`[AppCoordinator] TTS error:`, error)
+      this.settleMergedEntries(message, 'error', `Not spoken, entry ${message.id} failed`)
       this.emit('ttsError', { message, error })
     })
 
@@ -159,6 +240,26 @@ export class AppCoordinator extends EventEmitter {
     // Apply global mute setting
     this.ttsQueue.setMuted(config.muted || false)
 
+    // Pick the audio player up front so a missing one is reported at startup
+    const playbackTarget = config.playbackTarget ?? 'server'
+    this.ttsQueue.setPlaybackTarget(playbackTarget)
+    if (playbackTarget !== 'browser') {
+      this.ttsQueue.configureAudioOutput(config.audioOutput)
+      this.ttsQueue.checkAudioFormats(config.profiles.filter((profile) => profile.enabled !== false))
+    }
+
+    for (const rule of config.quietHours ?? []) {
+      if (!isValidQuietHoursRule(rule)) {
+        console.error(`[AppCoordinator] Ignoring invalid quiet hours rule: ${JSON.stringify(rule)}`)
+      }
+    }
+
+    // Messages left over from the last run go ahead of new ones
+    if (config.restoreQueue?.enabled && !this.queueRestored) {
+      this.queueRestored = true
+      this.restoreQueue(config.restoreQueue)
+    }
+
     // Start monitoring files for enabled profiles
     const enabledProfiles: ProfileConfig[] = []
     for (const profile of config.profiles) {
@@ -168,6 +269,9 @@ export class AppCoordinator extends EventEmitter {
     }
 
     await this.fileMonitor.startMonitoring(enabledProfiles)
+
+    // Enforce the audio cache retention policy now and once a day
+    this.audioJanitor.start(config.retention)
   }
 
   async updateConfig(config: AgentTTSConfig): Promise<void> {
@@ -179,6 +283,9 @@ export class AppCoordinator extends EventEmitter {
     // Wait for current TTS to finish
     await this.waitForTTSCompletion()
 
+    // Speak held back bursts with the settings they arrived under
+    this.coalescer.flushAll()
+
     // Clear cached TTS services to use new config
     this.ttsQueue.clearCachedServices()
 
@@ -231,18 +338,27 @@ export class AppCoordinator extends EventEmitter {
   }
 
   // New API methods for web service
-  async pausePlayback(): Promise<void> {
+  async pausePlayback(): Promise<PauseState | null> {
     console.log('[AppCoordinator] pausePlayback called')
     this.ttsQueue.pauseCurrent()
+    const paused = this.ttsQueue.getPauseState()
     // Emit status change to clear the playing state in UI
     this.emit('status-changed', {
       playing: false,
       playedId: null,
+      paused,
     })
+    return paused
   }
 
   async resumePlayback(): Promise<void> {
     this.ttsQueue.resumeCurrent()
+    const message = this.ttsQueue.getCurrentMessage()
+    this.emit('status-changed', {
+      playing: Boolean(message),
+      playingId: message?.id,
+      paused: null,
+    })
   }
 
   async stopPlayback(): Promise<void> {
@@ -254,22 +370,54 @@ export class AppCoordinator extends EventEmitter {
     this.ttsQueue.skipCurrent()
   }
 
+  /**
+   * Messages waiting to be spoken, next first
+   */
+  getQueue(): QueueItem[] {
+    return this.ttsQueue.getQueue().map((message) => this.toQueueItem(message))
+  }
+
+  removeFromQueue(id: number): boolean {
+    return this.ttsQueue.removeFromQueue(id)
+  }
+
+  moveInQueue(id: number, position: number): boolean {
+    return this.ttsQueue.moveInQueue(id, position)
+  }
+
+  promoteInQueue(id: number): boolean {
+    return this.ttsQueue.moveInQueue(id, 0)
+  }
+
+  private toQueueItem(message: QueuedMessage): QueueItem {
+    return {
+      id: message.id,
+      timestamp: message.timestamp,
+      profile: message.profile,
+      filteredText: message.filteredText,
+      cwd: this.replaceHomeWithTilde(message.cwd),
+    }
+  }
+
   async getProfiles(): Promise<any[]> {
     if (!this.config) return []
 
-    const profiles = this.config.profiles.map((profile) => ({
-      id: profile.id,
-      name: profile.name || profile.id,
-      enabled: this.isProfileEnabled(profile.id),
-      icon: profile.icon,
-      model: profile.model,
-      modelIconUrl: profile.modelIconUrl,
-      parserName: profile.parser?.name,
-      parserIconUrl: profile.parser?.iconUrl,
-      avatarUrl: profile.ttsService?.avatarUrl,
-      profileUrl: profile.ttsService?.profileUrl,
-      voiceName: profile.ttsService?.voiceName,
-    }))
+    const profiles = this.config.profiles.map((profile) => {
+      const ttsService = getPrimaryTTSServiceConfig(profile)
+      return {
+        id: profile.id,
+        name: profile.name || profile.id,
+        enabled: this.isProfileEnabled(profile.id),
+        icon: profile.icon,
+        model: profile.model,
+        modelIconUrl: profile.modelIconUrl,
+        parserName: profile.parser?.name,
+        parserIconUrl: profile.parser?.iconUrl,
+        avatarUrl: ttsService?.avatarUrl,
+        profileUrl: ttsService?.profileUrl,
+        voiceName: ttsService?.voiceName,
+      }
+    })
 
     return profiles
   }
@@ -320,14 +468,15 @@ export class AppCoordinator extends EventEmitter {
     // Enrich logs with avatar info from config and simplify paths
     return logs.map((log) => {
       const profile = this.config?.profiles.find((p) => p.id === log.profile)
+      const ttsService = getPrimaryTTSServiceConfig(profile)
       const timestamp = new Date(log.timestamp)
       return {
         ...log,
         cwd: this.replaceHomeWithTilde(log.cwd),
-        avatarUrl: profile?.ttsService?.avatarUrl,
-        profileUrl: profile?.ttsService?.profileUrl,
-        voiceName: profile?.ttsService?.voiceName,
-        audioUrl: this.getAudioUrl(log.profile, timestamp),
+        avatarUrl: ttsService?.avatarUrl,
+        profileUrl: ttsService?.profileUrl,
+        voiceName: ttsService?.voiceName,
+        audioUrl: this.getAudioUrl(log.profile, timestamp, log.audioPath),
       }
     })
   }
@@ -346,6 +495,7 @@ export class AppCoordinator extends EventEmitter {
     for (const profile of this.config.profiles) {
       const logs = this.database.getTTSLog().getLogsByProfile(profile.id, 1)
       if (logs.length > 0) {
+        const ttsService = getPrimaryTTSServiceConfig(profile)
         latestLogs.push({
           ...logs[0],
           profileName: profile.name || profile.id,
@@ -354,9 +504,9 @@ export class AppCoordinator extends EventEmitter {
           modelIconUrl: profile.modelIconUrl,
           parserName: profile.parser?.name,
           parserIconUrl: profile.parser?.iconUrl,
-          avatarUrl: profile.ttsService?.avatarUrl,
-          profileUrl: profile.ttsService?.profileUrl,
-          voiceName: profile.ttsService?.voiceName,
+          avatarUrl: ttsService?.avatarUrl,
+          profileUrl: ttsService?.profileUrl,
+          voiceName: ttsService?.voiceName,
         })
       }
     }
@@ -374,20 +524,125 @@ export class AppCoordinator extends EventEmitter {
         throw new Error(`Profile ${log.profile} not found`)
       }
 
-      // Create a new entry with the profile config
-      const entry: any = {
-        id: log.id,
-        profile: log.profile,
-        originalText: log.originalText,
-        filteredText: log.filteredText,
-        filename: log.filePath,
-        timestamp: new Date(log.timestamp),
-        state: 'queued',
-        profileConfig: profileConfig,
+      this.ttsQueue.addToQueue(this.createReplayEntry(log, profileConfig))
+    }
+  }
+
+  /**
+   * Queue errored entries again, oldest first. Returns how many were queued.
+   * Entries of disabled or removed profiles are left alone.
+   */
+  async retryErroredLogs(profileId?: string): Promise<number> {
+    if (!this.config) return 0
+
+    const logs = this.database.getTTSLog().getEntriesByStatus('error', 100, profileId)
+    let count = 0
+
+    for (const log of [...logs].reverse()) {
+      const profileConfig = this.config.profiles.find((p) => p.id === log.profile)
+      if (!log.id || !profileConfig || log.role === 'user' || !this.isProfileEnabled(log.profile)) continue
+
+      this.database.updateTTSQueueEntry(log.id, { state: 'queued' })
+      this.ttsQueue.addToQueue(this.createReplayEntry(log, profileConfig))
+      count++
+    }
+
+    console.log(`[AppCoordinator] Queued ${count} errored entries for retry`)
+    return count
+  }
+
+  /**
+   * Queue the messages that were still waiting when the server last stopped,
+   * oldest first. Those older than maxAgeSeconds are marked expired instead.
+   */
+  private restoreQueue(options: RestoreQueueConfig): void {
+    if (!this.config) return
+
+    if (this.config.muted || this.settings.getMuteAll()) {
+      console.log('[AppCoordinator] Muted, not restoring queued messages')
+      return
+    }
+
+    const maxAge = (options.maxAgeSeconds ?? 600) * 1000
+    const logs = this.database.getTTSLog().getEntriesByStatus('queued', 500)
+    let count = 0
+
+    for (const log of [...logs].reverse()) {
+      const profileConfig = this.config.profiles.find((p) => p.id === log.profile)
+      if (!log.id || !profileConfig || log.role === 'user') continue
+      if (profileConfig.enabled === false || !this.isProfileEnabled(log.profile)) continue
+
+      if (Date.now() - new Date(log.timestamp).getTime() > maxAge) {
+        this.database.updateTTSQueueEntry(log.id, {
+          state: 'expired',
+          apiResponseMessage: 'Expired while agent-tts was not running',
+        })
+        continue
       }
 
-      this.ttsQueue.addToQueue(entry)
+      const entry = this.createReplayEntry(log, profileConfig)
+      if (this.holdForQuietHours(entry)) continue
+
+      // Count the time before the restart towards the profile's maxAgeSeconds
+      this.ttsQueue.addToQueue({ ...entry, queuedAt: new Date(log.timestamp) })
+      count++
+    }
+
+    console.log(`[AppCoordinator] Restored ${count} queued messages`)
+  }
+
+  /**
+   * Log but don't speak messages that arrive during quiet hours. They are
+   * marked expired so they can still be replayed by hand.
+   */
+  private holdForQuietHours(message: QueuedMessage): boolean {
+    const [rule] = getActiveQuietHours(this.config?.quietHours ?? [], new Date(), message.profile)
+    if (!rule) return false
+
+    const reason = `Not spoken during quiet hours${rule.name ? ` (${rule.name})` : ''}`
+    console.log(`[AppCoordinator] ${reason}: entry ${message.id}`)
+    if (message.id) {
+      this.database.updateTTSQueueEntry(message.id, { state: 'expired', apiResponseMessage: reason })
+      this.emit('status-changed', { expiredId: message.id })
     }
+    return true
+  }
+
+  /**
+   * Give the messages merged into one the outcome of the message they were spoken with
+   */
+  private settleMergedEntries(message: QueuedMessage, state: 'played' | 'expired' | 'error', reason: string): void {
+    const ids = message.id ? this.mergedEntries.get(message.id) : undefined
+    if (!ids) return
+    this.mergedEntries.delete(message.id!)
+
+    for (const id of ids) {
+      this.database.updateTTSQueueEntry(id, { state, apiResponseMessage: reason })
+      if (state === 'played') {
+        this.emit('status-changed', { coalescedId: id })
+      } else if (state === 'expired') {
+        this.emit('status-changed', { expiredId: id })
+      }
+    }
+  }
+
+  private createReplayEntry(log: TTSLogRecord, profileConfig: ProfileConfig): QueuedMessage {
+    // Create a new entry with the profile config
+    const entry: any = {
+      id: log.id,
+      profile: log.profile,
+      originalText: log.originalText,
+      filteredText: log.filteredText,
+      filename: log.filePath,
+      timestamp: new Date(log.timestamp),
+      audioPath: log.audioPath,
+      audioFormat: log.audioFormat,
+      audioMimeType: log.audioMimeType,
+      state: 'queued',
+      profileConfig: profileConfig,
+    }
+
+    return entry
   }
 
   async getStatus(): Promise<any> {
@@ -402,10 +657,23 @@ export class AppCoordinator extends EventEmitter {
       queue: {
         size: queueSize,
         isPlaying,
+        paused: this.ttsQueue.getPauseState(),
       },
+      quietHours: getActiveQuietHours(this.config?.quietHours ?? []),
+      retention: this.audioJanitor.getLastReport(),
+      audioOutput: this.ttsQueue.getAudioOutputStatus(),
+      playbackTarget: this.ttsQueue.getPlaybackTarget(),
     }
   }
 
+  acknowledgePlayback(requestId: number, event: 'started' | 'ended', error?: string): void {
+    this.ttsQueue.acknowledgeBrowserPlayback(requestId, event, error)
+  }
+
+  setBrowserClients(count: number): void {
+    this.ttsQueue.setBrowserClients(count)
+  }
+
   async isMuted(): Promise<boolean> {
     return this.settings.getMuteAll()
   }
@@ -425,6 +693,8 @@ export class AppCoordinator extends EventEmitter {
   }
 
   async shutdown(): Promise<void> {
+    this.audioJanitor.stop()
+    this.coalescer.clear()
     await this.fileMonitor.stopMonitoring()
     this.ttsQueue.clearQueue()
   }
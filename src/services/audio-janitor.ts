@@ -0,0 +1,182 @@
+import { readdir, rm, rmdir, stat } from 'fs/promises'
+import { join, relative, sep } from 'path'
+import { RetentionConfig } from '../types/config.js'
+import { DatabaseManager } from './database.js'
+import { AUDIO_CACHE_DIR } from '../utils/audio-cache.js'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface RetentionReport {
+  lastRun: string // ISO timestamp of the last run
+  filesDeleted: number
+  bytesReclaimed: number
+  entriesDeleted: number
+  totalBytesReclaimed: number // Since the server started
+  cacheFiles: number // Remaining after the run
+  cacheBytes: number
+}
+
+interface CachedFile {
+  path: string
+  relativePath: string
+  size: number
+  modified: number
+}
+
+/**
+ * Enforces the retention policy on the audio cache at startup and once a day.
+ * Audio of favorite messages is kept unless keepFavorites is false.
+ */
+export class AudioJanitor {
+  private database: DatabaseManager
+  private audioDir: string
+  private policy: RetentionConfig = {}
+  private timer: NodeJS.Timeout | null = null
+  private isRunning = false
+  private lastReport: RetentionReport | null = null
+  private totalBytesReclaimed = 0
+
+  constructor(database: DatabaseManager, audioDir: string = AUDIO_CACHE_DIR) {
+    this.database = database
+    this.audioDir = audioDir
+  }
+
+  setPolicy(policy?: RetentionConfig): void {
+    this.policy = policy || {}
+  }
+
+  start(policy?: RetentionConfig): void {
+    this.setPolicy(policy)
+
+    this.run().catch((err) => console.error('[AudioJanitor] Cleanup failed:', err))
+
+    if (!this.timer) {
+      this.timer = setInterval(() => {
+        this.run().catch((err) => console.error('[AudioJanitor] Cleanup failed:', err))
+      }, DAY_MS)
+      // Don't keep the process alive just for cleanup
+      this.timer.unref()
+    }
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  getLastReport(): RetentionReport | null {
+    return this.lastReport
+  }
+
+  async run(): Promise<RetentionReport | null> {
+    if (this.isRunning) return this.lastReport
+    this.isRunning = true
+
+    try {
+      const { maxAgeDays, maxBytes, keepFavorites = true, pruneLogs = false } = this.policy
+      const protectedPaths = new Set(keepFavorites ? this.database.getFavoriteAudioPaths() : [])
+      const files = (await this.listFiles(this.audioDir)).sort((a, b) => a.modified - b.modified)
+
+      let cacheBytes = files.reduce((total, file) => total + file.size, 0)
+      const remaining: CachedFile[] = []
+      let filesDeleted = 0
+      let bytesReclaimed = 0
+
+      const deleteFile = async (file: CachedFile) => {
+        await rm(file.path, { force: true })
+        filesDeleted++
+        bytesReclaimed += file.size
+        cacheBytes -= file.size
+      }
+
+      // Oldest first, so the size limit removes the least recently created audio
+      const cutoff = maxAgeDays !== undefined ? Date.now() - maxAgeDays * DAY_MS : null
+      for (const file of files) {
+        if (protectedPaths.has(file.relativePath)) {
+          remaining.push(file)
+        } else if (cutoff !== null && file.modified < cutoff) {
+          await deleteFile(file)
+        } else if (maxBytes !== undefined && cacheBytes > maxBytes) {
+          await deleteFile(file)
+        } else {
+          remaining.push(file)
+        }
+      }
+
+      if (filesDeleted > 0) {
+        await this.removeEmptyDirectories(this.audioDir)
+      }
+
+      const entriesDeleted =
+        pruneLogs && maxAgeDays !== undefined ? this.database.clearOldEntries(maxAgeDays, keepFavorites) : 0
+
+      this.totalBytesReclaimed += bytesReclaimed
+      this.lastReport = {
+        lastRun: new Date().toISOString(),
+        filesDeleted,
+        bytesReclaimed,
+        entriesDeleted,
+        totalBytesReclaimed: this.totalBytesReclaimed,
+        cacheFiles: remaining.length,
+        cacheBytes,
+      }
+
+      if (filesDeleted > 0 || entriesDeleted > 0) {
+        console.log(
+          `[AudioJanitor] Deleted ${filesDeleted} audio files (${bytesReclaimed} bytes) and ${entriesDeleted} log entries`,
+        )
+      }
+
+      return this.lastReport
+    } finally {
+      this.isRunning = false
+    }
+  }
+
+  private async listFiles(dir: string): Promise<CachedFile[]> {
+    let entries
+    try {
+      entries = await readdir(dir, { withFileTypes: true })
+    } catch {
+      // Nothing has been cached yet
+      return []
+    }
+
+    const files: CachedFile[] = []
+
+    for (const entry of entries) {
+      const path = join(dir, entry.name)
+
+      if (entry.isDirectory()) {
+        files.push(...(await this.listFiles(path)))
+      } else if (entry.isFile()) {
+        const stats = await stat(path)
+        files.push({
+          path,
+          relativePath: relative(this.audioDir, path).split(sep).join('/'),
+          size: stats.size,
+          modified: stats.mtimeMs,
+        })
+      }
+    }
+
+    return files
+  }
+
+  private async removeEmptyDirectories(dir: string): Promise<void> {
+    const entries = await readdir(dir, { withFileTypes: true })
+
+    for (const entry of entries) {
+      if (!entry.isDirectory()) continue
+
+      const path = join(dir, entry.name)
+      await this.removeEmptyDirectories(path)
+
+      if ((await readdir(path)).length === 0) {
+        await rmdir(path)
+      }
+    }
+  }
+}
@@ -1,9 +1,226 @@
 import { ChildProcess, spawn } from 'child_process'
 import { unlink } from 'fs/promises'
+import { extname } from 'path'
+import { AudioBackendName, AudioOutputConfig } from '../types/config.js'
+import { commandExists } from '../utils/command-exists.js'
+
+interface AudioBackend {
+  command: string
+  formats?: string[] // Formats the player can decode (default: anything)
+  device: boolean // Whether an output device can be chosen
+  volume: boolean // Whether the volume can be set
+  buildArgs(filePath: string, output: AudioOutputConfig): string[]
+}
+
+const BACKENDS: Record<Exclude<AudioBackendName, 'auto' | 'command'>, AudioBackend> = {
+  afplay: {
+    command: 'afplay',
+    device: false,
+    volume: true,
+    buildArgs: (filePath, { volume }) => [...(volume !== undefined ? ['-v', String(volume)] : []), filePath],
+  },
+  ffplay: {
+    command: 'ffplay',
+    device: false,
+    volume: true,
+    buildArgs: (filePath, { volume }) => [
+      '-nodisp',
+      '-autoexit',
+      '-loglevel',
+      'error',
+      ...(volume !== undefined ? ['-volume', String(Math.round(volume * 100))] : []),
+      filePath,
+    ],
+  },
+  mpv: {
+    command: 'mpv',
+    device: true,
+    volume: true,
+    buildArgs: (filePath, { device, volume }) => [
+      '--no-video',
+      '--really-quiet',
+      ...(device ? [`--audio-device=${device}`] : []),
+      ...(volume !== undefined ? [`--volume=${Math.round(volume * 100)}`] : []),
+      filePath,
+    ],
+  },
+  'pw-play': {
+    command: 'pw-play',
+    formats: ['wav', 'flac', 'ogg', 'opus'],
+    device: true,
+    volume: true,
+    buildArgs: (filePath, { device, volume }) => [
+      ...(device ? ['--target', device] : []),
+      ...(volume !== undefined ? ['--volume', String(volume)] : []),
+      filePath,
+    ],
+  },
+  paplay: {
+    command: 'paplay',
+    formats: ['wav', 'flac', 'ogg', 'opus'],
+    device: true,
+    volume: true,
+    buildArgs: (filePath, { device, volume }) => [
+      ...(device ? [`--device=${device}`] : []),
+      // PulseAudio volume is linear from 0 to 65536 (100%)
+      ...(volume !== undefined ? [`--volume=${Math.round(volume * 65536)}`] : []),
+      filePath,
+    ],
+  },
+  aplay: {
+    command: 'aplay',
+    formats: ['wav'],
+    device: true,
+    volume: false,
+    buildArgs: (filePath, { device }) => ['-q', ...(device ? ['-D', device] : []), filePath],
+  },
+  powershell: {
+    command: 'powershell',
+    formats: ['wav'],
+    device: false,
+    volume: false,
+    buildArgs: (filePath) => ['-c', `(New-Object Media.SoundPlayer '${filePath}').PlaySync()`],
+  },
+}
+
+export interface AudioOutputStatus {
+  backend: AudioBackendName | null // Player in use
+  error?: string // Why no player could be used
+}
+
+// Players tried by 'auto', in order of preference. ffplay stays the Linux default,
+// as it was before the player could be chosen. Players that decode every format
+// we synthesize come before those limited to WAV and friends.
+const AUTO_BACKENDS: Partial<Record<NodeJS.Platform, AudioBackendName[]>> = {
+  darwin: ['afplay'],
+  linux: ['ffplay', 'mpv', 'pw-play', 'paplay', 'aplay'],
+  win32: ['powershell'],
+}
+
+/**
+ * Pick the backend to use for the configured audio output. 'auto' picks the
+ * first installed player for the platform. Throws if nothing usable exists.
+ */
+export function resolveAudioBackend(
+  output: AudioOutputConfig = {},
+  platform: NodeJS.Platform = process.platform,
+  isInstalled: (command: string) => boolean = commandExists,
+): AudioBackendName {
+  const backend = output.backend ?? 'auto'
+
+  if (backend === 'auto') {
+    const candidates = AUTO_BACKENDS[platform] ?? []
+    const found = candidates.find((name) => isInstalled(getBackendCommand(name, output)))
+    if (!found) {
+      throw new Error(
+        candidates.length > 0
+          ? `No audio player found. Install one of: ${candidates.join(', ')}, or set audioOutput.backend in the config`
+          : `No audio player known for platform ${platform}. Set audioOutput.backend to 'command' in the config`,
+      )
+    }
+    return found
+  }
+
+  if (backend === 'command' && !output.command) {
+    throw new Error(`Audio backend 'command' requires audioOutput.command`)
+  }
+
+  if (!BACKENDS[backend as keyof typeof BACKENDS] && backend !== 'command') {
+    throw new Error(`Unknown audio backend '${backend}'`)
+  }
+
+  const command = getBackendCommand(backend, output)
+  if (!isInstalled(command)) {
+    throw new Error(`Audio backend '${backend}' is not available: '${command}' was not found on PATH`)
+  }
+  return backend
+}
+
+const PLACEHOLDER = /\{(file|device|volume)\}/g
+
+/**
+ * Build the command line that plays the file with the backend
+ */
+export function buildPlayCommand(
+  backend: AudioBackendName,
+  filePath: string,
+  output: AudioOutputConfig = {},
+): { command: string; args: string[] } {
+  if (backend === 'command') {
+    const values: Record<string, string | undefined> = {
+      file: filePath,
+      device: output.device,
+      volume: output.volume !== undefined ? String(output.volume) : undefined,
+    }
+    // Arguments whose placeholder has no value are left out
+    const args = (output.args ?? ['{file}'])
+      .filter((arg) => [...arg.matchAll(PLACEHOLDER)].every(([, name]) => values[name] !== undefined))
+      .map((arg) => arg.replace(PLACEHOLDER, (_, name) => values[name]!))
+    return { command: output.command!, args }
+  }
+
+  const definition = BACKENDS[backend as keyof typeof BACKENDS]
+  return { command: definition.command, args: definition.buildArgs(filePath, output) }
+}
+
+function getBackendCommand(backend: AudioBackendName, output: AudioOutputConfig): string {
+  if (backend === 'command') return output.command ?? ''
+  return BACKENDS[backend as keyof typeof BACKENDS].command
+}
 
 export class AudioPlayer {
   private currentAudioProcess: ChildProcess | null = null
   private currentTempFile: string | null = null
+  private output: AudioOutputConfig = {}
+  private backend: AudioBackendName | null = null
+  private backendError: string | null = null
+  private startedAt = 0 // When the current file started playing
+  private pausedAt: number | null = null
+  private pausedTime = 0 // Total time the current file has spent paused
+
+  /**
+   * Choose the player for the configured output. Returns false and logs why
+   * if no usable player exists, in which case play() rejects with the reason.
+   */
+  configure(output: AudioOutputConfig = {}): boolean {
+    this.output = output
+    this.backend = null
+    this.backendError = null
+
+    try {
+      this.backend = resolveAudioBackend(output)
+    } catch (err) {
+      this.backendError = err instanceof Error ? err.message : String(err)
+      console.error(`[AudioPlayer] ${this.backendError}`)
+      return false
+    }
+
+    const definition = BACKENDS[this.backend as keyof typeof BACKENDS]
+    if (definition && output.device && !definition.device) {
+      console.warn(`[AudioPlayer] ${this.backend} cannot select an output device, ignoring "${output.device}"`)
+    }
+    if (definition && output.volume !== undefined && !definition.volume) {
+      console.warn(`[AudioPlayer] ${this.backend} cannot set the volume, ignoring ${output.volume}`)
+    }
+
+    console.log(`[AudioPlayer] Using ${this.backend} for audio playback`)
+    return true
+  }
+
+  /**
+   * Whether the player in use can decode audio in this format
+   */
+  canPlay(format: string): boolean {
+    const formats = BACKENDS[this.backend as keyof typeof BACKENDS]?.formats
+    return !formats || formats.includes(format.toLowerCase())
+  }
+
+  /**
+   * The player in use, or the reason there is none
+   */
+  getBackendStatus(): AudioOutputStatus {
+    return this.backendError ? { backend: null, error: this.backendError } : { backend: this.backend }
+  }
 
   /**
    * Play an audio file using the system's audio player
@@ -17,27 +234,29 @@ export class AudioPlayer {
       this.currentTempFile = filePath
     }
 
+    if (!this.backend && !this.backendError) {
+      this.configure(this.output)
+    }
+
     return new Promise((resolve, reject) => {
-      const platform = process.platform
-      let command: string
-      let args: string[]
-
-      if (platform === 'darwin') {
-        command = 'afplay'
-        args = [filePath]
-      } else if (platform === 'linux') {
-        command = 'ffplay'
-        args = ['-nodisp', '-autoexit', filePath]
-      } else if (platform === 'win32') {
-        command = 'powershell'
-        args = ['-c', `(New-Object Media.SoundPlayer '${filePath}').PlaySync()`]
-      } else {
-        reject(new Error(`Unsupported platform: ${platform}`))
+      if (!this.backend) {
+        reject(new Error(this.backendError ?? 'No audio player configured'))
+        return
+      }
+
+      const format = extname(filePath).slice(1).toLowerCase()
+      if (!this.canPlay(format)) {
+        reject(new Error(`${this.backend} cannot play ${format} audio. Choose a different audioOutput.backend`))
         return
       }
 
+      const { command, args } = buildPlayCommand(this.backend, filePath, this.output)
+
       console.log(`[AudioPlayer] Playing audio: ${filePath} with ${command}`)
       this.currentAudioProcess = spawn(command, args)
+      this.startedAt = Date.now()
+      this.pausedAt = null
+      this.pausedTime = 0
 
       this.currentAudioProcess.on('close', async (code) => {
         console.log(`[AudioPlayer] Audio playback finished with code ${code}`)
@@ -81,6 +300,11 @@ export class AudioPlayer {
     if (this.currentAudioProcess) {
       console.log('[AudioPlayer] Stopping audio playback')
       this.currentAudioProcess.kill()
+      if (this.pausedAt !== null) {
+        // A stopped process only acts on the termination signal once continued
+        this.currentAudioProcess.kill('SIGCONT')
+        this.pausedAt = null
+      }
       this.currentAudioProcess = null
     }
 
@@ -93,6 +317,37 @@ export class AudioPlayer {
     }
   }
 
+  /**
+   * Suspend the player process so playback can continue where it left off.
+   * Returns false if nothing is playing or the platform can't suspend processes.
+   */
+  pause(): boolean {
+    if (!this.currentAudioProcess || process.platform === 'win32') return false
+    if (this.pausedAt !== null) return true
+
+    if (!this.currentAudioProcess.kill('SIGSTOP')) return false
+    this.pausedAt = Date.now()
+    console.log(`[AudioPlayer] Paused at ${this.getPosition()}ms`)
+    return true
+  }
+
+  resume(): void {
+    if (!this.currentAudioProcess || this.pausedAt === null) return
+
+    this.currentAudioProcess.kill('SIGCONT')
+    this.pausedTime += Date.now() - this.pausedAt
+    this.pausedAt = null
+    console.log(`[AudioPlayer] Resumed at ${this.getPosition()}ms`)
+  }
+
+  /**
+   * How far into the current file playback is, in milliseconds
+   */
+  getPosition(): number {
+    if (!this.currentAudioProcess) return 0
+    return (this.pausedAt ?? Date.now()) - this.startedAt - this.pausedTime
+  }
+
   /**
    * Check if audio is currently playing
    */
@@ -0,0 +1,185 @@
+import { EventEmitter } from 'events'
+
+export interface BrowserPlayRequest {
+  requestId: number
+  audioPath: string // Relative to the audio cache directory, i.e. the /audio URL path
+}
+
+interface PendingPlayback {
+  requestId: number
+  clients: number // Browsers that were asked to play it
+  failures: number // Browsers that reported they couldn't
+  started: boolean
+  startedAt: number
+  pausedAt: number | null
+  pausedTime: number
+  timer?: NodeJS.Timeout
+  resolve: () => void
+  reject: (error: Error) => void
+}
+
+const DEFAULT_START_TIMEOUT = 10000 // A browser must start playing within this time
+const DEFAULT_END_TIMEOUT = 10 * 60 * 1000 // Give up waiting for the end of very long audio
+
+/**
+ * Plays audio in connected web browsers instead of on this machine
+ *
+ * Emits 'play' with a BrowserPlayRequest for the clients to play, and 'pause',
+ * 'resume' or 'stop' with the request id to control it. Clients report back through
+ * acknowledge(): 'started' once the audio plays, then 'ended' when it finishes
+ * (or with an error if it can't be played). The first client to start or finish
+ * wins. Playback only fails once every client asked to play it reported an error.
+ */
+export class BrowserAudioPlayer extends EventEmitter {
+  private pending: PendingPlayback | null = null
+  private nextRequestId = 1
+  private connectedClients = 0
+
+  constructor(
+    private startTimeout: number = DEFAULT_START_TIMEOUT,
+    private endTimeout: number = DEFAULT_END_TIMEOUT,
+  ) {
+    super()
+  }
+
+  /**
+   * Ask the browsers to play the audio and wait until one has finished playing it
+   */
+  play(audioPath: string): Promise<void> {
+    this.stop()
+
+    const requestId = this.nextRequestId++
+
+    return new Promise((resolve, reject) => {
+      this.pending = {
+        requestId,
+        clients: this.connectedClients,
+        failures: 0,
+        started: false,
+        startedAt: 0,
+        pausedAt: null,
+        pausedTime: 0,
+        resolve,
+        reject,
+      }
+      this.startTimer(this.pending)
+
+      console.log(`[BrowserAudioPlayer] Requesting playback ${requestId}: ${audioPath}`)
+      const request: BrowserPlayRequest = { requestId, audioPath }
+      this.emit('play', request)
+    })
+  }
+
+  /**
+   * Set how many browsers are connected, and so will be asked to play audio
+   */
+  setConnectedClients(count: number): void {
+    this.connectedClients = count
+  }
+
+  /**
+   * Handle a client's report on a play request
+   */
+  acknowledge(requestId: number, event: 'started' | 'ended', error?: string): void {
+    const pending = this.pending
+    if (!pending || pending.requestId !== requestId) return
+
+    if (error) {
+      // Another browser may still play it, e.g. when only one tab has autoplay blocked
+      pending.failures++
+      if (pending.failures >= Math.max(pending.clients, 1)) {
+        this.finish(requestId, new Error(`Browser playback failed: ${error}`))
+      } else {
+        console.log(`[BrowserAudioPlayer] A browser couldn't play ${requestId}: ${error}`)
+      }
+    } else if (event === 'ended') {
+      this.finish(requestId)
+    } else if (!pending.started) {
+      pending.started = true
+      pending.startedAt = Date.now()
+      clearTimeout(pending.timer)
+      if (pending.pausedAt === null) {
+        this.startTimer(pending)
+      }
+    }
+  }
+
+  /**
+   * Pause playback in the browsers. Returns false if nothing is playing.
+   */
+  pause(): boolean {
+    const pending = this.pending
+    if (!pending) return false
+    if (pending.pausedAt !== null) return true
+
+    // Don't time out while paused
+    clearTimeout(pending.timer)
+    pending.timer = undefined
+    pending.pausedAt = Date.now()
+    this.emit('pause', pending.requestId)
+    return true
+  }
+
+  resume(): void {
+    const pending = this.pending
+    if (!pending || pending.pausedAt === null) return
+
+    if (pending.started) {
+      pending.pausedTime += Date.now() - pending.pausedAt
+    }
+    pending.pausedAt = null
+    this.emit('resume', pending.requestId)
+    this.startTimer(pending)
+  }
+
+  /**
+   * How far into the audio the browsers are, in milliseconds, as far as the server can tell
+   */
+  getPosition(): number {
+    const pending = this.pending
+    if (!pending?.started) return 0
+    return (pending.pausedAt ?? Date.now()) - pending.startedAt - pending.pausedTime
+  }
+
+  /**
+   * Stop playback in the browsers. The pending play() resolves, like a killed local player.
+   */
+  stop(): void {
+    if (!this.pending) return
+
+    const { requestId } = this.pending
+    console.log(`[BrowserAudioPlayer] Stopping playback ${requestId}`)
+    this.finish(requestId)
+    this.emit('stop', requestId)
+  }
+
+  isPlaying(): boolean {
+    return this.pending !== null
+  }
+
+  // Fail if a browser doesn't start playing soon, or never reports the end
+  private startTimer(pending: PendingPlayback): void {
+    const error = pending.started
+      ? new Error('Browser did not report the end of playback')
+      : new Error('No browser started playing the audio. Is the dashboard open?')
+
+    pending.timer = setTimeout(
+      () => this.finish(pending.requestId, error),
+      pending.started ? this.endTimeout : this.startTimeout,
+    )
+  }
+
+  private finish(requestId: number, error?: Error): void {
+    const pending = this.pending
+    if (!pending || pending.requestId !== requestId) return
+
+    clearTimeout(pending.timer)
+    this.pending = null
+
+    if (error) {
+      pending.reject(error)
+    } else {
+      pending.resolve()
+    }
+  }
+}
@@ -1,9 +1,10 @@
 import Database from 'better-sqlite3'
 import path from 'path'
 import fs from 'fs'
-import { FileState, TTSQueueEntry } from '../types/config.js'
+import { FileState, SessionMetadata, TTSQueueEntry } from '../types/config.js'
 import { TTSLogRepository } from '../database/tts-log.js'
 import { AGENT_TTS_PATHS } from '../utils/xdg-paths.js'
+import { getLegacyAudioPath } from '../utils/audio-cache.js'
 
 export class DatabaseManager {
   private db: Database.Database
@@ -85,7 +86,7 @@ export class DatabaseManager {
         profile TEXT NOT NULL,
         original_text TEXT NOT NULL,
         filtered_text TEXT NOT NULL,
-        state TEXT CHECK(state IN ('queued', 'playing', 'played', 'error', 'user')) NOT NULL,
+        state TEXT CHECK(state IN ('queued', 'playing', 'retrying', 'played', 'error', 'user', 'expired')) NOT NULL,
         api_response_status INTEGER,
         api_response_message TEXT,
         processing_time INTEGER,
@@ -137,7 +138,7 @@ export class DatabaseManager {
       console.log('[Database] Added role column to tts_queue table')
     }
 
-    // Migration: Update state constraint to include 'user'
+    // Migration: Update state constraint to include 'user', 'retrying' and 'expired'
     // Need to recreate the table to modify CHECK constraint
     try {
       // Check if we need to update the constraint
@@ -145,12 +146,10 @@ export class DatabaseManager {
         .prepare("SELECT sql FROM sqlite_master WHERE type='table' AND name='tts_queue'")
         .get() as any
       if (tableInfo && tableInfo.sql) {
-        const needsUpdate =
-          !tableInfo.sql.includes("'user'") ||
-          tableInfo.sql.includes("CHECK(state IN ('queued', 'playing', 'played', 'error'))")
+        const needsUpdate = ["'user'", "'retrying'", "'expired'"].some((state) => !tableInfo.sql.includes(state))
 
         if (needsUpdate) {
-          console.log('[Database] Updating state constraint to include "user"...')
+          console.log('[Database] Updating state constraint to include "user", "retrying" and "expired"...')
           console.log('[Database] Current table definition:', tableInfo.sql)
 
           // Start a transaction
@@ -166,28 +165,30 @@ export class DatabaseManager {
                 profile TEXT NOT NULL,
                 original_text TEXT NOT NULL,
                 filtered_text TEXT NOT NULL,
-                state TEXT CHECK(state IN ('queued', 'playing', 'played', 'error', 'user')) NOT NULL,
+                state TEXT CHECK(state IN ('queued', 'playing', 'retrying', 'played', 'error', 'user', 'expired')) NOT NULL,
                 api_response_status INTEGER,
                 api_response_message TEXT,
                 processing_time INTEGER,
                 created_at INTEGER DEFAULT (strftime('%s', 'now')),
                 is_favorite INTEGER DEFAULT 0,
                 cwd TEXT,
-                role TEXT CHECK(role IN ('user', 'assistant'))
+                role TEXT CHECK(role IN ('user', 'assistant')),
+                images TEXT,
+                tts_fallback TEXT,
+                audio_path TEXT,
+                audio_format TEXT,
+                audio_mime_type TEXT
               );
             `)
 
-            // Copy data from old table (only columns that exist)
+            // Copy data from old table (only columns that exist in both)
+            const oldColumns = this.getColumnNames('tts_queue')
+            const newColumns = this.getColumnNames('tts_queue_new')
+            const copyColumns = newColumns.filter((name) => oldColumns.includes(name)).join(', ')
+
             this.db.exec(`
-              INSERT INTO tts_queue_new (
-                id, timestamp, filename, profile, original_text, filtered_text, 
-                state, api_response_status, api_response_message, processing_time, 
-                created_at, is_favorite, cwd, role
-              )
-              SELECT 
-                id, timestamp, filename, profile, original_text, filtered_text,
-                state, api_response_status, api_response_message, processing_time,
-                created_at, is_favorite, cwd, role
+              INSERT INTO tts_queue_new (${copyColumns})
+              SELECT ${copyColumns}
               FROM tts_queue
             `)
 
@@ -221,12 +222,64 @@ export class DatabaseManager {
     } catch (err) {
       console.error('[Database] Error updating state constraint:', err)
     }
+
+    // Migration: Add tts_fallback column if it doesn't exist
+    const currentColumns = this.getColumnNames('tts_queue')
+    const hasFallbackColumn = currentColumns.includes('tts_fallback')
+
+    if (!hasFallbackColumn) {
+      this.db.exec(`
+        ALTER TABLE tts_queue 
+        ADD COLUMN tts_fallback TEXT;
+      `)
+      console.log('[Database] Added tts_fallback column to tts_queue table')
+    }
+
+    // Migration: Add audio_path column if it doesn't exist
+    const hasAudioPathColumn = currentColumns.includes('audio_path')
+
+    if (!hasAudioPathColumn) {
+      this.db.exec(`
+        ALTER TABLE tts_queue 
+        ADD COLUMN audio_path TEXT;
+      `)
+      console.log('[Database] Added audio_path column to tts_queue table')
+    }
+
+    // Migration: Add audio_format and audio_mime_type columns if they don't exist
+    for (const column of ['audio_format', 'audio_mime_type']) {
+      if (!currentColumns.includes(column)) {
+        this.db.exec(`ALTER TABLE tts_queue ADD COLUMN ${column} TEXT;`)
+        console.log(`[Database] Added ${column} column to tts_queue table`)
+      }
+    }
+
+    // Migration: Add session metadata columns if they don't exist
+    for (const column of ['session_id', 'git_branch', 'model']) {
+      if (!currentColumns.includes(column)) {
+        this.db.exec(`ALTER TABLE tts_queue ADD COLUMN ${column} TEXT;`)
+        console.log(`[Database] Added ${column} column to tts_queue table`)
+      }
+    }
+
+    const fileStateColumns = this.getColumnNames('file_states')
+    for (const column of ['cwd', 'session_id', 'git_branch', 'model']) {
+      if (!fileStateColumns.includes(column)) {
+        this.db.exec(`ALTER TABLE file_states ADD COLUMN ${column} TEXT;`)
+        console.log(`[Database] Added ${column} column to file_states table`)
+      }
+    }
+  }
+
+  private getColumnNames(table: string): string[] {
+    const columns = this.db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[]
+    return columns.map((column) => column.name)
   }
 
   getFileState(filepath: string): FileState | null {
     const row = this.db
       .prepare(
-        `SELECT filepath, last_modified, file_size, last_processed_offset
+        `SELECT filepath, last_modified, file_size, last_processed_offset, cwd, session_id, git_branch, model
        FROM file_states
        WHERE filepath = ?`,
       )
@@ -239,26 +292,56 @@ export class DatabaseManager {
       lastModified: row.last_modified,
       fileSize: row.file_size,
       lastProcessedOffset: row.last_processed_offset,
+      session: {
+        cwd: row.cwd ?? undefined,
+        sessionId: row.session_id ?? undefined,
+        gitBranch: row.git_branch ?? undefined,
+        model: row.model ?? undefined,
+      },
     }
   }
 
   updateFileState(state: FileState): void {
+    // Keeps the session metadata, which is saved separately once the content is parsed
     this.db
       .prepare(
-        `INSERT OR REPLACE INTO file_states (filepath, last_modified, file_size, last_processed_offset, updated_at)
-       VALUES (?, ?, ?, ?, strftime('%s', 'now'))`,
+        `INSERT INTO file_states (filepath, last_modified, file_size, last_processed_offset, updated_at)
+       VALUES (?, ?, ?, ?, strftime('%s', 'now'))
+       ON CONFLICT(filepath) DO UPDATE SET
+         last_modified = excluded.last_modified,
+         file_size = excluded.file_size,
+         last_processed_offset = excluded.last_processed_offset,
+         updated_at = excluded.updated_at`,
       )
       .run(state.filepath, state.lastModified, state.fileSize, state.lastProcessedOffset)
   }
 
+  /**
+   * Remember what a file's parser learned about its session, for the next chunk of the file
+   */
+  updateFileSession(filepath: string, session: SessionMetadata): void {
+    this.db
+      .prepare(
+        `UPDATE file_states
+       SET cwd = ?, session_id = ?, git_branch = ?, model = ?
+       WHERE filepath = ?`,
+      )
+      .run(session.cwd || null, session.sessionId || null, session.gitBranch || null, session.model || null, filepath)
+  }
+
+  deleteFileState(filepath: string): void {
+    this.db.prepare('DELETE FROM file_states WHERE filepath = ?').run(filepath)
+  }
+
   addTTSQueueEntry(entry: Omit<TTSQueueEntry, 'id'>): number {
     const result = this.db
       .prepare(
         `INSERT INTO tts_queue (
         timestamp, filename, profile, original_text, filtered_text,
-        state, api_response_status, api_response_message, processing_time, cwd, role, images
+        state, api_response_status, api_response_message, processing_time, cwd, role, images,
+        session_id, git_branch, model
       )
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
       )
       .run(
         entry.timestamp.getTime(),
@@ -273,6 +356,9 @@ export class DatabaseManager {
         entry.cwd || null,
         entry.role || null,
         entry.images || null,
+        entry.sessionId || null,
+        entry.gitBranch || null,
+        entry.model || null,
       )
 
     return result.lastInsertRowid as number
@@ -298,17 +384,24 @@ export class DatabaseManager {
       cwd: row.cwd,
       role: row.role,
       images: row.images,
+      ttsFallback: row.tts_fallback,
+      audioPath: row.audio_path,
+      audioFormat: row.audio_format,
+      audioMimeType: row.audio_mime_type,
+      sessionId: row.session_id,
+      gitBranch: row.git_branch,
+      model: row.model,
     }
   }
 
   resetStuckPlayingEntries(): void {
-    // Reset any other entries that might be stuck in 'playing' state
+    // Reset any other entries that might be stuck in 'playing' or 'retrying' state
     this.db
       .prepare(
         `UPDATE tts_queue 
        SET state = 'error', 
            api_response_message = 'Interrupted - new message started playing'
-       WHERE state = 'playing'`,
+       WHERE state IN ('playing', 'retrying')`,
       )
       .run()
   }
@@ -322,6 +415,11 @@ export class DatabaseManager {
       values.push(updates.state)
     }
 
+    if (updates.filteredText !== undefined) {
+      updateFields.push('filtered_text = ?')
+      values.push(updates.filteredText)
+    }
+
     if (updates.apiResponseStatus !== undefined) {
       updateFields.push('api_response_status = ?')
       values.push(updates.apiResponseStatus)
@@ -337,6 +435,26 @@ export class DatabaseManager {
       values.push(updates.processingTime)
     }
 
+    if (updates.ttsFallback !== undefined) {
+      updateFields.push('tts_fallback = ?')
+      values.push(updates.ttsFallback)
+    }
+
+    if (updates.audioPath !== undefined) {
+      updateFields.push('audio_path = ?')
+      values.push(updates.audioPath)
+    }
+
+    if (updates.audioFormat !== undefined) {
+      updateFields.push('audio_format = ?')
+      values.push(updates.audioFormat)
+    }
+
+    if (updates.audioMimeType !== undefined) {
+      updateFields.push('audio_mime_type = ?')
+      values.push(updates.audioMimeType)
+    }
+
     if (updateFields.length === 0) return
 
     values.push(id)
@@ -389,6 +507,13 @@ export class DatabaseManager {
       isFavorite: row.is_favorite === 1,
       cwd: row.cwd,
       role: row.role,
+      ttsFallback: row.tts_fallback,
+      audioPath: row.audio_path,
+      audioFormat: row.audio_format,
+      audioMimeType: row.audio_mime_type,
+      sessionId: row.session_id,
+      gitBranch: row.git_branch,
+      model: row.model,
     }
   }
 
@@ -418,19 +543,34 @@ export class DatabaseManager {
     }
   }
 
-  clearOldEntries(daysToKeep: number = 7): number {
+  clearOldEntries(daysToKeep: number = 7, keepFavorites: boolean = false): number {
     const cutoffTime = Date.now() - daysToKeep * 24 * 60 * 60 * 1000
 
     const result = this.db
       .prepare(
         `DELETE FROM tts_queue
-       WHERE timestamp < ?`,
+       WHERE timestamp < ?${keepFavorites ? ' AND is_favorite = 0' : ''}`,
       )
       .run(cutoffTime)
 
     return result.changes
   }
 
+  /**
+   * Audio files of favorite entries, relative to the audio cache directory
+   */
+  getFavoriteAudioPaths(): string[] {
+    const rows = this.db
+      .prepare(
+        `SELECT profile, timestamp, audio_path
+       FROM tts_queue
+       WHERE is_favorite = 1`,
+      )
+      .all() as { profile: string; timestamp: string; audio_path: string | null }[]
+
+    return rows.map((row) => row.audio_path ?? getLegacyAudioPath(row.profile, new Date(row.timestamp)))
+  }
+
   close(): void {
     if (this.db) {
       this.db.close()
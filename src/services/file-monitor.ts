@@ -4,12 +4,14 @@ import { readFileSync, statSync, existsSync } from 'fs'
 import { ProfileConfig, ParsedMessage, FileState } from '../types/config.js'
 import { DatabaseManager } from './database.js'
 import { ParserFactory } from '../parsers/parser-factory.js'
+import { takeCompleteLines } from '../utils/complete-lines.js'
 
 export interface FileChange {
   filepath: string
   profile: ProfileConfig
   content: string
   offset: number
+  previousContent?: string // For 'rewrite' mode: the file as it was last seen, whose messages were handled already
 }
 
 export class FileMonitor extends EventEmitter {
@@ -20,6 +22,7 @@ export class FileMonitor extends EventEmitter {
   private isProcessing = false
   private isInitialScanComplete = false
   private serviceStartTime = Date.now()
+  private snapshots: Map<string, string> = new Map() // Last seen content of 'rewrite' mode files
 
   constructor(database: DatabaseManager) {
     super()
@@ -71,7 +74,15 @@ export class FileMonitor extends EventEmitter {
         // For 'new' mode parsers, only process files created after service started
         // For 'append' mode parsers, handle as before
 
-        if (logMode === 'new') {
+        if (logMode === 'rewrite') {
+          const previousContent = this.snapshots.get(path)
+          if (previousContent === undefined && !this.isInitialScanComplete) {
+            // Existing file during startup scan - remember it without processing old messages
+            this.snapshots.set(path, readFileSync(path, 'utf-8'))
+          } else {
+            await this.handleFileRewrite(path, profile)
+          }
+        } else if (logMode === 'new') {
           const stats = statSync(path)
           const fileCreatedAt = stats.birthtimeMs
           const isNewFile = fileCreatedAt > this.serviceStartTime
@@ -116,8 +127,8 @@ export class FileMonitor extends EventEmitter {
             // File exists in database - check for new content only
             //console.log(`[FileMonitor] File already tracked, checking for new content`)
 
-            if (stats.size > existingState.lastProcessedOffset) {
-              // Has new content since last processed
+            if (stats.size !== existingState.lastProcessedOffset) {
+              // Has new content since last processed, or was truncated or replaced
               //console.log(`[FileMonitor] Found new content (${stats.size - existingState.lastProcessedOffset} bytes)`)
               await this.handleFileChange(path, profile)
             } else {
@@ -127,12 +138,13 @@ export class FileMonitor extends EventEmitter {
             // New file during startup scan - just save state, don't process old content
             //console.log(`[FileMonitor] New file detected during startup scan, saving state without processing`)
 
-            // Save file state with current size (marking all existing content as "processed")
+            // Mark the existing complete lines as processed. A half-written last line is read once it's finished.
+            const { byteLength } = this.readCompleteLines(path, 0)
             const state: FileState = {
               filepath: path,
               lastModified: stats.mtimeMs,
               fileSize: stats.size,
-              lastProcessedOffset: stats.size, // Mark current size as processed
+              lastProcessedOffset: byteLength,
             }
             await this.database.updateFileState(state)
             //console.log(`[FileMonitor] Saved file state at offset ${stats.size} (skipping existing content)`)
@@ -140,30 +152,28 @@ export class FileMonitor extends EventEmitter {
             // New file after startup - process entire content
             //console.log(`[FileMonitor] New file detected after startup, processing entire content`)
 
-            if (stats.size > 0) {
-              // Read and process the entire file
-              const content = readFileSync(path, 'utf-8')
+            // Read and process the entire file, up to a half-written last line
+            const { text: content, byteLength } = this.readCompleteLines(path, 0)
 
-              if (content.trim()) {
-                const change: FileChange = {
-                  filepath: path,
-                  profile,
-                  content,
-                  offset: 0,
-                }
-
-                this.changeQueue.push(change)
-                //console.log(`[FileMonitor] Queued new file with ${content.length} chars`)
-                this.processQueue()
+            if (content.trim()) {
+              const change: FileChange = {
+                filepath: path,
+                profile,
+                content,
+                offset: 0,
               }
+
+              this.changeQueue.push(change)
+              //console.log(`[FileMonitor] Queued new file with ${content.length} chars`)
+              this.processQueue()
             }
 
-            // Save file state with current size
+            // Save file state with the end of the last complete line
             const state: FileState = {
               filepath: path,
               lastModified: stats.mtimeMs,
               fileSize: stats.size,
-              lastProcessedOffset: stats.size,
+              lastProcessedOffset: byteLength,
             }
             await this.database.updateFileState(state)
             //console.log(`[FileMonitor] Saved file state at offset ${stats.size}`)
@@ -177,11 +187,21 @@ export class FileMonitor extends EventEmitter {
         if (logMode === 'append') {
           //console.log(`[FileMonitor] Change detected in: ${path}`)
           this.handleFileChange(path, profile)
+        } else if (logMode === 'rewrite') {
+          this.handleFileRewrite(path, profile)
         } else {
           //console.log(`[FileMonitor] Ignoring change for ${logMode} mode file: ${path}`)
         }
       })
 
+      watcher.on('unlink', (path) => {
+        // A rotated log starts over from the beginning if it's created again
+        this.snapshots.delete(path)
+        if (logMode === 'append') {
+          this.database.deleteFileState(path)
+        }
+      })
+
       watcher.on('error', (error) => {
         console.error(`[FileMonitor] Watcher error for profile ${profile.id}:`, error)
       })
@@ -252,6 +272,8 @@ export class FileMonitor extends EventEmitter {
           lastProcessedOffset: 0,
         }
         await this.database.updateFileState(newState)
+        // The file starts over, so what its old content said about the session no longer applies
+        this.database.updateFileSession(filepath, {})
         await this.handleFileChange(filepath, profile)
       } else {
         //console.log(`[FileMonitor] No new content (size: ${stats.size} <= offset: ${fileState.lastProcessedOffset})`)
@@ -262,7 +284,8 @@ export class FileMonitor extends EventEmitter {
     const bytesToRead = stats.size - fileState.lastProcessedOffset
     //console.log(`[FileMonitor] Reading ${bytesToRead} new bytes from offset ${fileState.lastProcessedOffset}`)
 
-    const newContent = this.readFileFromOffset(filepath, fileState.lastProcessedOffset)
+    // Only complete lines are handed on, the rest is read again on the next change
+    const { text: newContent, byteLength } = this.readCompleteLines(filepath, fileState.lastProcessedOffset)
 
     if (newContent.trim()) {
       //console.log(`[FileMonitor] Found new content (${newContent.length} chars), adding to queue`)
@@ -284,18 +307,48 @@ export class FileMonitor extends EventEmitter {
       filepath,
       lastModified: stats.mtimeMs,
       fileSize: stats.size,
-      lastProcessedOffset: stats.size,
+      lastProcessedOffset: fileState.lastProcessedOffset + byteLength,
     }
     await this.database.updateFileState(newState)
   }
 
-  private readFileFromOffset(filepath: string, offset: number): string {
+  private async handleFileRewrite(filepath: string, profile: ProfileConfig): Promise<void> {
+    if (!existsSync(filepath)) {
+      this.snapshots.delete(filepath)
+      return
+    }
+
+    const content = readFileSync(filepath, 'utf-8')
+    const previousContent = this.snapshots.get(filepath) ?? ''
+    if (content === previousContent) return
+
+    // A file caught mid-write doesn't parse. Keep the last version that did, or its
+    // messages would be taken for new ones once the write is finished.
+    const parser = ParserFactory.createParser(profile.parser)
+    if (content.trim() && (await parser.parse(content, filepath, {})).length === 0) return
+
+    this.snapshots.set(filepath, content)
+
+    if (content.trim()) {
+      const change: FileChange = {
+        filepath,
+        profile,
+        content,
+        offset: 0,
+        previousContent,
+      }
+
+      this.changeQueue.push(change)
+      this.processQueue()
+    }
+  }
+
+  private readCompleteLines(filepath: string, offset: number): { text: string; byteLength: number } {
     try {
-      const buffer = readFileSync(filepath)
-      return buffer.toString('utf-8', offset)
+      return takeCompleteLines(readFileSync(filepath).subarray(offset))
     } catch (error) {
       console.error(`Error reading file ${filepath}:`, error)
-      return ''
+      return { text: '', byteLength: 0 }
     }
   }
 
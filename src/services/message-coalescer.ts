@@ -0,0 +1,81 @@
+import { EventEmitter } from 'events'
+import { QueuedMessage } from './tts-queue.js'
+
+interface Burst {
+  messages: QueuedMessage[]
+  timer: NodeJS.Timeout
+}
+
+/**
+ * Holds back messages that arrive in quick succession from the same session
+ *
+ * Profiles with `coalesce` set wait until no new message has arrived from the
+ * same file and cwd for windowSeconds, then emit 'ready' once for the whole
+ * burst with the message to speak and the messages it replaces. In 'last'
+ * mode only the final message is spoken; in 'merge' mode the texts are joined
+ * into one utterance under the last message's entry. Messages from
+ * other profiles are passed straight through.
+ */
+export class MessageCoalescer extends EventEmitter {
+  private bursts: Map<string, Burst> = new Map()
+
+  add(message: QueuedMessage): void {
+    const options = message.profileConfig.coalesce
+    if (!options || options.windowSeconds <= 0) {
+      this.emit('ready', message, [])
+      return
+    }
+
+    const key = [message.profile, message.filename, message.cwd ?? ''].join('\0')
+    const burst = this.bursts.get(key)
+    if (burst) {
+      clearTimeout(burst.timer)
+    }
+
+    const messages = [...(burst?.messages ?? []), message]
+    const timer = setTimeout(() => this.flush(key), options.windowSeconds * 1000)
+    this.bursts.set(key, { messages, timer })
+  }
+
+  /**
+   * Emit every pending burst now, e.g. before the configuration changes
+   */
+  flushAll(): void {
+    for (const key of [...this.bursts.keys()]) {
+      this.flush(key)
+    }
+  }
+
+  /**
+   * Forget pending bursts without emitting them
+   */
+  clear(): void {
+    this.bursts.forEach((burst) => clearTimeout(burst.timer))
+    this.bursts.clear()
+  }
+
+  private flush(key: string): void {
+    const burst = this.bursts.get(key)
+    if (!burst) return
+
+    clearTimeout(burst.timer)
+    this.bursts.delete(key)
+
+    const messages = burst.messages
+    const last = messages[messages.length - 1]
+    const replaced = messages.slice(0, -1)
+
+    if (replaced.length === 0 || last.profileConfig.coalesce?.mode !== 'merge') {
+      this.emit('ready', last, replaced)
+      return
+    }
+
+    // Blank lines keep the parts as separate sentences for chunking
+    const merged: QueuedMessage = {
+      ...last,
+      originalText: messages.map((m) => m.originalText).join('\n\n'),
+      filteredText: messages.map((m) => m.filteredText).join('\n\n'),
+    }
+    this.emit('ready', merged, replaced)
+  }
+}
@@ -1,9 +1,11 @@
 import { EventEmitter } from 'events'
-import { ProfileConfig, ParsedMessage, TTSQueueEntry } from '../types/config.js'
+import { ProfileConfig, ParsedMessage, SessionMetadata, TTSQueueEntry } from '../types/config.js'
 import { FileChange } from './file-monitor'
 import { ParserFactory } from '../parsers/parser-factory.js'
 import { FilterChain } from '../filters/filter-chain.js'
 import { DatabaseManager } from './database'
+import { SummarizerFactory } from './summarizer/factory.js'
+import { BaseSummarizer } from './summarizer/base.js'
 
 export class MessageProcessor extends EventEmitter {
   private database: DatabaseManager
@@ -28,15 +30,30 @@ export class MessageProcessor extends EventEmitter {
       const parser = ParserFactory.createParser(profile.parser)
       console.log(`[MessageProcessor] Using parser: ${profile.parser.type}`)
 
-      const messages = await parser.parse(content)
+      // Start from what earlier chunks of the file said about the session
+      const session: SessionMetadata = { ...this.database.getFileState(filepath)?.session }
+      const knownSession = JSON.stringify(session)
+
+      let messages = await parser.parse(content, filepath, session)
       console.log(`[MessageProcessor] Parser returned ${messages.length} messages`)
 
+      if (JSON.stringify(session) !== knownSession) {
+        this.database.updateFileSession(filepath, session)
+      }
+
+      // Rewritten files are parsed whole, so skip the messages the previous version already had
+      if (change.previousContent?.trim()) {
+        const seen = await parser.parse(change.previousContent, filepath, {})
+        messages = messages.slice(seen.length)
+      }
+
       if (messages.length === 0) {
         console.log(`[MessageProcessor] No messages parsed, skipping`)
         return
       }
 
       const filterChain = new FilterChain(profile.filters || [])
+      const summarizer = this.createSummarizer(profile)
 
       for (let i = 0; i < messages.length; i++) {
         const message = messages[i]
@@ -59,6 +76,9 @@ export class MessageProcessor extends EventEmitter {
             filteredText: contentStr, // No filtering for user messages
             state: 'user',
             cwd: message.cwd,
+            sessionId: message.sessionId,
+            gitBranch: message.gitBranch,
+            model: message.model,
             role: 'user',
             images: message.images && message.images.length > 0 ? message.images.join(',') : undefined,
           }
@@ -78,18 +98,14 @@ export class MessageProcessor extends EventEmitter {
           }
 
           // Assistant messages go through normal filtering and TTS processing
-          let filteredMessage = filterChain.apply(messageToFilter)
+          const filteredMessage = filterChain.apply(messageToFilter)
 
           if (!filteredMessage || !filteredMessage.content.trim()) {
             console.log(`[MessageProcessor] Message filtered out or empty after filtering`)
             continue
           }
-          if (messageToFilter.content.length > 100) {
-            filteredMessage.content = await haiku(messageToFilter.content)
-            filteredMessage.content = filteredMessage.content.replace(/\w{2}/g, ' ')
-            console.log(
-              `[MessageProcessor] haiku filtered ${messageToFilter.content.length} characters to ${filteredMessage.content.length}`,
-            )
+          if (summarizer && summarizer.shouldSummarize(messageToFilter.content)) {
+            filteredMessage.content = await this.summarize(summarizer, messageToFilter.content, filteredMessage.content)
           }
 
           console.log(
@@ -104,6 +120,9 @@ export class MessageProcessor extends EventEmitter {
             filteredText: filteredMessage.content,
             state: 'queued',
             cwd: message.cwd,
+            sessionId: message.sessionId,
+            gitBranch: message.gitBranch,
+            model: message.model,
             role: 'assistant',
           }
 
@@ -125,59 +144,33 @@ export class MessageProcessor extends EventEmitter {
       })
     }
   }
-}
 
-import { spawn } from 'child_process'
-import { writeFileSync } from 'fs'
-
-async function haiku(message: string) {
-  writeFileSync('/tmp/agent-tts-haiku', `<input>${message}</input>`, 'utf-8')
-  const prompt =
-    'Take the following input and prepare it for text-to-speech. Keep any of the personal messages, but minimize the technical items, especially lists, long numbers or identifiers, or file paths and URLs. Strip out the markdown and emojis. Try to keep the message under 150 words, and summarize if you need to. Remember to keep the essence of the input since it reflects their personality. Just output the summarized text without any pre or post commentary.'
-  return runCommand('pi', [
-    '--model',
-    'claude-haiku',
-    '--system-prompt',
-    prompt,
-    '--print',
-    `@/tmp/agent-tts-haiku`,
-    '--no-session',
-    '--mode',
-    'text',
-  ])
-}
+  private createSummarizer(profile: ProfileConfig): BaseSummarizer | null {
+    try {
+      return SummarizerFactory.create(profile.summarizer)
+    } catch (error) {
+      // A misconfigured summarizer shouldn't stop messages from being spoken
+      const errorMessage = error instanceof Error ? error.message : String(error)
+      console.error(`[MessageProcessor] Invalid summarizer for profile ${profile.id}: ${errorMessage}`)
+      return null
+    }
+  }
 
-// Sexy one-liner version you’ll fall in love with ❤️
-async function runCommand(command: string, args: string[] = [], options = {}): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const child = spawn(command, args, {
-      stdio: ['ignore', 'pipe', 'pipe'], // we only care about stdout/stderr
-      ...options,
-      shell: true, // set to false if you don’t need shell features
-    })
-
-    let stdout = ''
-    let stderr = ''
-
-    child.stdout.on('data', (chunk) => {
-      stdout += chunk
-    })
-
-    child.stderr.on('data', (chunk) => {
-      stderr += chunk
-    })
-
-    child.on('error', (err) => {
-      reject(err)
-    })
-
-    child.on('close', (code) => {
-      if (code === 0) {
-        resolve(stdout.trim()) // trim just to be cute and clean
-      } else {
-        const error = new Error(`Command failed with exit code ${code}\n${stderr}`)
-        reject(error)
+  private async summarize(summarizer: BaseSummarizer, originalText: string, filteredText: string): Promise<string> {
+    try {
+      const summary = await summarizer.summarize(originalText, filteredText)
+      if (!summary.trim()) {
+        console.log(`[MessageProcessor] ${summarizer.getName()} summarizer returned empty text, using filtered text`)
+        return filteredText
       }
-    })
-  })
+      console.log(
+        `[MessageProcessor] ${summarizer.getName()} summarized ${originalText.length} characters to ${summary.length}`,
+      )
+      return summary
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error)
+      console.error(`[MessageProcessor] Summarizer failed, using filtered text: ${errorMessage}`)
+      return filteredText
+    }
+  }
 }
@@ -0,0 +1,34 @@
+import { SummarizerConfig } from '../../types/config.js'
+
+export const DEFAULT_SUMMARY_PROMPT =
+  'Take the following input and prepare it for text-to-speech. Keep any of the personal messages, but minimize the technical items, especially lists, long numbers or identifiers, or file paths and URLs. Strip out the markdown and emojis. Try to keep the message under 150 words, and summarize if you need to. Remember to keep the essence of the input since it reflects their personality. Just output the summarized text without any pre or post commentary.'
+
+export abstract class BaseSummarizer {
+  protected minLength: number
+  protected prompt: string
+  protected timeout: number
+
+  constructor(protected config: SummarizerConfig) {
+    this.minLength = config.minLength ?? 100
+    this.prompt = config.prompt || DEFAULT_SUMMARY_PROMPT
+    this.timeout = config.timeout ?? 30000
+  }
+
+  /**
+   * Summarize a message for TTS
+   * - originalText: the raw assistant message (markdown, code, etc.)
+   * - filteredText: the same message after the profile's filter chain
+   */
+  abstract summarize(originalText: string, filteredText: string): Promise<string>
+
+  /**
+   * Returns true if the message is long enough to be worth summarizing
+   */
+  shouldSummarize(originalText: string): boolean {
+    return originalText.length > this.minLength
+  }
+
+  getName(): string {
+    return this.config.type
+  }
+}
@@ -0,0 +1,38 @@
+import { BaseSummarizer } from './base.js'
+import { SummarizerConfig } from '../../types/config.js'
+import { runCommand } from '../../utils/run-command.js'
+
+/**
+ * Command Summarizer
+ *
+ * Runs a local executable (e.g. an LLM CLI) for each message. The message is
+ * written to stdin and the summary is read from stdout, so concurrent agents
+ * never share a temp file. Arguments may contain `{prompt}`, which is replaced
+ * with the configured prompt. The command is spawned without a shell.
+ */
+export class CommandSummarizer extends BaseSummarizer {
+  private command: string
+  private args: string[]
+
+  constructor(config: SummarizerConfig) {
+    super(config)
+
+    if (!config.command) {
+      throw new Error('Command summarizer requires a command')
+    }
+
+    this.command = config.command
+    this.args = config.args || []
+  }
+
+  async summarize(originalText: string): Promise<string> {
+    const args = this.args.map((arg) => arg.replace(/\{prompt\}/g, () => this.prompt))
+
+    const stdout = await runCommand(this.command, args, {
+      label: 'Summarizer command',
+      timeout: this.timeout,
+      input: originalText,
+    })
+    return stdout.toString().trim()
+  }
+}
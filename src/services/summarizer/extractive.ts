@@ -0,0 +1,23 @@
+import { BaseSummarizer } from './base.js'
+import { SummarizerConfig } from '../../types/config.js'
+import { ExtractiveSummaryFilter } from '../../filters/extractive-summary-filter.js'
+
+/**
+ * Extractive Summarizer
+ *
+ * Works offline on the filtered text by keeping its highest scoring sentences.
+ * See ExtractiveSummaryFilter for the scoring rules.
+ */
+export class ExtractiveSummarizer extends BaseSummarizer {
+  private filter: ExtractiveSummaryFilter
+
+  constructor(config: SummarizerConfig) {
+    super(config)
+    this.filter = new ExtractiveSummaryFilter(config.maxWords)
+  }
+
+  async summarize(_originalText: string, filteredText: string): Promise<string> {
+    const result = this.filter.filter({ role: 'assistant', content: filteredText })
+    return result?.content || filteredText
+  }
+}
@@ -0,0 +1,27 @@
+import { SummarizerConfig } from '../../types/config.js'
+import { BaseSummarizer } from './base.js'
+import { CommandSummarizer } from './command.js'
+import { ExtractiveSummarizer } from './extractive.js'
+import { OpenAISummarizer } from './openai.js'
+
+export class SummarizerFactory {
+  /**
+   * Returns null when summarization is disabled for the profile
+   */
+  static create(config?: SummarizerConfig): BaseSummarizer | null {
+    if (!config) return null
+
+    switch (config.type) {
+      case 'none':
+        return null
+      case 'extractive':
+        return new ExtractiveSummarizer(config)
+      case 'command':
+        return new CommandSummarizer(config)
+      case 'openai-compatible':
+        return new OpenAISummarizer(config)
+      default:
+        throw new Error(`Unknown summarizer type: ${(config as { type: string }).type}`)
+    }
+  }
+}
@@ -0,0 +1,78 @@
+import axios, { AxiosError } from 'axios'
+import { BaseSummarizer } from './base.js'
+import { SummarizerConfig } from '../../types/config.js'
+
+interface ChatCompletionRequest {
+  model: string
+  messages: { role: 'system' | 'user'; content: string }[]
+  max_tokens?: number
+}
+
+/**
+ * OpenAI-compatible Summarizer
+ *
+ * Sends the message to any `/chat/completions` endpoint (OpenAI, Ollama,
+ * LM Studio, llama.cpp server, ...) with the prompt as the system message.
+ */
+export class OpenAISummarizer extends BaseSummarizer {
+  private baseUrl: string
+  private apiKey: string
+  private model: string
+  private maxTokens?: number
+
+  constructor(config: SummarizerConfig) {
+    super(config)
+
+    this.baseUrl = config.baseUrl || 'https://api.openai.com/v1'
+    this.apiKey = config.apiKey || ''
+    this.model = config.model || 'gpt-4o-mini'
+    this.maxTokens = config.maxTokens
+  }
+
+  async summarize(originalText: string): Promise<string> {
+    const requestBody: ChatCompletionRequest = {
+      model: this.model,
+      messages: [
+        { role: 'system', content: this.prompt },
+        { role: 'user', content: originalText },
+      ],
+    }
+
+    if (this.maxTokens) {
+      requestBody.max_tokens = this.maxTokens
+    }
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+    }
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`
+    }
+
+    try {
+      const response = await axios.post(`${this.baseUrl}/chat/completions`, requestBody, {
+        headers,
+        timeout: this.timeout,
+      })
+
+      const summary = response.data?.choices?.[0]?.message?.content
+      if (typeof summary !== 'string' || !summary.trim()) {
+        throw new Error('Summarizer returned an empty response')
+      }
+
+      return summary.trim()
+    } catch (error) {
+      if (!(error instanceof AxiosError)) throw error
+
+      // Throw a clean error message instead of the entire axios error
+      if (error.code === 'ECONNABORTED') {
+        throw new Error(`Summarizer request timed out after ${this.timeout}ms`)
+      } else if (error.code === 'ECONNREFUSED') {
+        throw new Error(`Cannot connect to summarizer at ${this.baseUrl}`)
+      } else if (error.response) {
+        throw new Error(`Summarizer request failed with status ${error.response.status}`)
+      }
+      throw error
+    }
+  }
+}
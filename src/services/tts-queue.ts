@@ -1,15 +1,32 @@
 import { EventEmitter } from 'events'
-import { TTSQueueEntry, ProfileConfig } from '../types/config.js'
+import { TTSQueueEntry, ProfileConfig, TTSServiceConfig, AudioOutputConfig, PlaybackTarget } from '../types/config.js'
 import { DatabaseManager } from './database.js'
 import { TTSServiceFactory } from './tts/factory.js'
-import { BaseTTSService } from './tts/base.js'
-import { AudioPlayer } from './audio-player.js'
-import { join } from 'path'
+import { AudioData, BaseTTSService, TTSMetadata } from './tts/base.js'
+import { AudioPlayer, AudioOutputStatus } from './audio-player.js'
+import { BrowserAudioPlayer, BrowserPlayRequest } from './browser-audio-player.js'
+import { extname, join, relative, sep } from 'path'
 import { existsSync } from 'fs'
-import { AGENT_TTS_PATHS } from '../utils/xdg-paths.js'
+import { mkdtemp, rm, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import { AUDIO_CACHE_DIR, getLegacyAudioPath, resolveAudioPath } from '../utils/audio-cache.js'
+import { splitIntoChunks } from '../utils/text-chunker.js'
+import { canConcatenateAudio, concatenateAudio, getAudioMimeType } from '../utils/audio.js'
+import { getTTSServiceConfigs } from '../utils/tts-config.js'
 
 export interface QueuedMessage extends TTSQueueEntry {
   profileConfig: ProfileConfig
+  queuedAt?: Date // When the message joined the queue, which is what maxAgeSeconds counts from
+}
+
+export interface PauseState {
+  messageId?: number // Message paused part way through, if any
+  position: number // Milliseconds into the audio file being played
+  queueSize: number // Messages waiting behind it
+}
+
+function getPriority(message: QueuedMessage): number {
+  return message.profileConfig.priority ?? 0
 }
 
 export class TTSQueueProcessor extends EventEmitter {
@@ -20,11 +37,27 @@ export class TTSQueueProcessor extends EventEmitter {
   private isMuted = false
   private ttsServices: Map<string, BaseTTSService> = new Map()
   private audioPlayer: AudioPlayer
+  private browserPlayer: BrowserAudioPlayer
+  private playbackTarget: PlaybackTarget = 'server'
+  private playbackGeneration = 0 // Incremented to cancel chunked playback in progress
+  private isPaused = false
+  private restartOnResume: QueuedMessage | null = null // Paused message whose player couldn't be suspended
+  private interrupted: QueuedMessage | null = null // Cut off by a higher priority message, so not played
+  private resumeWaiters: (() => void)[] = []
 
   constructor(database: DatabaseManager) {
     super()
     this.database = database
     this.audioPlayer = new AudioPlayer()
+    this.browserPlayer = new BrowserAudioPlayer()
+
+    this.browserPlayer.on('play', (request: BrowserPlayRequest) => {
+      const audioMimeType = getAudioMimeType(extname(request.audioPath).slice(1))
+      this.emit('browser-play', { ...request, audioMimeType, message: this.currentlyPlaying })
+    })
+    for (const event of ['pause', 'resume', 'stop']) {
+      this.browserPlayer.on(event, (requestId: number) => this.emit(`browser-${event}`, requestId))
+    }
   }
 
   addToQueue(message: QueuedMessage): void {
@@ -46,20 +79,65 @@ export class TTSQueueProcessor extends EventEmitter {
       return
     }
 
-    this.queue.push(message)
+    message.queuedAt ??= new Date()
+    const policy = message.profileConfig.interruption ?? 'queue'
+
+    if (policy === 'drop-if-busy' && (this.currentlyPlaying || this.queue.length > 0)) {
+      console.log(`[TTSQueue] Busy, dropping entry ${message.id} from ${message.profile}`)
+      this.markDropped(message, 'Dropped because another message was playing')
+      return
+    }
+
+    if (policy === 'replace-same-profile') {
+      // A newer message from the same session makes the unplayed ones stale
+      const superseded = this.queue.filter(
+        (queued) => queued.profile === message.profile && queued.filename === message.filename,
+      )
+      this.queue = this.queue.filter((queued) => !superseded.includes(queued))
+      superseded.forEach((queued) => this.markDropped(queued, `Superseded by entry ${message.id}`))
+    }
+
+    // Ahead of lower priority messages, behind those of the same or higher priority
+    const priority = getPriority(message)
+    const index = this.queue.findIndex((queued) => getPriority(queued) < priority)
+    this.queue.splice(index === -1 ? this.queue.length : index, 0, message)
+    this.queueUpdated()
+
+    const current = this.currentlyPlaying
+    const isAudible = this.audioPlayer.isPlaying() || this.browserPlayer.isPlaying()
+    if (policy === 'interrupt-lower' && current && isAudible && !this.isPaused && getPriority(current) < priority) {
+      console.log(`[TTSQueue] Entry ${message.id} from ${message.profile} interrupts entry ${current.id}`)
+      if (current.id) {
+        this.database.updateTTSQueueEntry(current.id, {
+          state: 'expired',
+          apiResponseMessage: `Interrupted by ${message.profile}`,
+        })
+      }
+      this.interrupted = current
+      // The processing loop moves on to the next message, which is now this one
+      this.playbackGeneration++
+      this.stopPlayback()
+    }
+
     this.processQueue()
   }
 
   private async processQueue(): Promise<void> {
-    if (this.isProcessing || this.queue.length === 0 || this.isMuted) {
+    if (this.isProcessing || this.queue.length === 0 || this.isMuted || this.isPaused) {
       return
     }
 
     this.isProcessing = true
 
-    while (this.queue.length > 0 && !this.isMuted) {
+    while (this.queue.length > 0 && !this.isMuted && !this.isPaused) {
       const message = this.queue.shift()
       if (!message) continue
+      this.queueUpdated()
+
+      if (this.isExpired(message)) {
+        this.expire(message)
+        continue
+      }
 
       try {
         await this.playMessage(message)
@@ -80,11 +158,31 @@ export class TTSQueueProcessor extends EventEmitter {
     this.isProcessing = false
   }
 
-  private getAudioFilePath(profile: string, timestamp: Date): string {
-    const dateStr = timestamp.toISOString().split('T')[0] // YYYY-MM-DD
-    const epochTimestamp = Math.floor(timestamp.getTime() / 1000)
-    const audioDir = join(AGENT_TTS_PATHS.cache, 'audio', dateStr)
-    return join(audioDir, `${profile}-${epochTimestamp}.mp3`)
+  private isExpired(message: QueuedMessage): boolean {
+    const maxAge = message.profileConfig.maxAgeSeconds
+    if (!maxAge || !message.queuedAt) return false
+    return Date.now() - message.queuedAt.getTime() > maxAge * 1000
+  }
+
+  private expire(message: QueuedMessage): void {
+    const waited = Math.round((Date.now() - message.queuedAt!.getTime()) / 1000)
+    console.log(`[TTSQueue] Entry ${message.id} expired after ${waited}s in the queue`)
+
+    if (message.id) {
+      this.database.updateTTSQueueEntry(message.id, {
+        state: 'expired',
+        apiResponseMessage: `Expired after waiting ${waited}s in the queue`,
+      })
+    }
+    this.emit('expired', message)
+  }
+
+  /**
+   * Audio already saved for this entry, e.g. when replaying it
+   */
+  private getStoredAudioPath(message: QueuedMessage): string | null {
+    const audioPath = resolveAudioPath(message.audioPath ?? getLegacyAudioPath(message.profile, message.timestamp))
+    return existsSync(audioPath) ? audioPath : null
   }
 
   private async playMessage(message: QueuedMessage): Promise<void> {
@@ -107,32 +205,34 @@ export class TTSQueueProcessor extends EventEmitter {
       this.emit('playing', message)
 
       // Check if we already have the audio file saved
-      const audioFilePath = this.getAudioFilePath(message.profile, message.timestamp)
+      const audioFilePath = this.getStoredAudioPath(message)
       const skipTTS = message.filteredText.length < 100
-      if (existsSync(audioFilePath)) {
+      if (audioFilePath) {
         console.log(`[TTSQueue] Found existing audio file: ${audioFilePath}`)
-        await this.audioPlayer.play(audioFilePath)
+        await this.playAudio(audioFilePath)
       } else if (!skipTTS) {
         console.log(`[TTSQueue] No existing audio file, generating new TTS`)
+        await this.synthesizeWithFallback(message)
+      }
 
-        // Get the TTS service for this profile
-        const ttsService = this.getTTSService(message.profileConfig)
-
-        if (!ttsService.isAvailable()) {
-          throw new Error('TTS service not available')
+      if (this.restartOnResume === message) {
+        // Paused where the player can't be suspended, so play it again from the start on resume
+        this.restartOnResume = null
+        this.currentlyPlaying = null
+        this.queue.unshift(message)
+        this.queueUpdated()
+        if (message.id) {
+          await this.database.updateTTSQueueEntry(message.id, { state: 'queued' })
         }
+        return
+      }
 
-        // Generate TTS and get the audio file path (saved to permanent location)
-        const audioPath = await ttsService.tts(message.filteredText, {
-          profile: message.profile,
-          timestamp: message.timestamp,
-        })
-
-        // Play the audio using our audio player
-        // Note: Don't use tempFile flag as the file is already saved to permanent location
-        if (audioPath) {
-          await this.audioPlayer.play(audioPath)
-        }
+      if (this.interrupted === message) {
+        // Already marked expired when it was cut off
+        this.interrupted = null
+        this.currentlyPlaying = null
+        this.emit('expired', message)
+        return
       }
 
       const processingTime = Date.now() - startTime
@@ -168,11 +268,223 @@ export class TTSQueueProcessor extends EventEmitter {
     }
   }
 
-  private getTTSService(profile: ProfileConfig): BaseTTSService {
-    const serviceKey = `${profile.id}-${profile.ttsService.type}`
+  /**
+   * Try each TTS service configured for the profile in order until one succeeds.
+   * Only falls back while nothing has been played, so a message is never
+   * partially spoken twice.
+   */
+  private async synthesizeWithFallback(message: QueuedMessage): Promise<void> {
+    const configs = getTTSServiceConfigs(message.profileConfig)
+    const failures: string[] = []
+
+    for (let index = 0; index < configs.length; index++) {
+      const config = configs[index]
+      let playbackStarted = false
+
+      let audioPath: string | undefined
+
+      try {
+        const ttsService = this.getTTSService(message.profileConfig, config, index)
+
+        audioPath = await this.synthesizeAndPlay(message, ttsService, config, () => {
+          playbackStarted = true
+        })
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error)
+        failures.push(`${config.type}: ${errorMessage}`)
+
+        if (playbackStarted) throw error
+
+        if (index === configs.length - 1) {
+          throw failures.length > 1 ? new Error(`All TTS services failed (${failures.join('; ')})`) : error
+        }
+
+        console.warn(`[TTSQueue] ${config.type} failed, falling back to ${configs[index + 1].type}: ${errorMessage}`)
+        continue
+      }
+
+      const updates: Partial<TTSQueueEntry> = {}
+
+      if (audioPath) {
+        message.audioPath = this.toCachePath(audioPath)
+        message.audioFormat = extname(audioPath).slice(1)
+        message.audioMimeType = getAudioMimeType(message.audioFormat)
+        updates.audioPath = message.audioPath
+        updates.audioFormat = message.audioFormat
+        updates.audioMimeType = message.audioMimeType
+      }
+
+      if (index > 0) {
+        message.ttsFallback = config.type
+        updates.ttsFallback = config.type
+        updates.apiResponseMessage = `Fell back to ${config.type} (${failures.join('; ')})`
+      }
+
+      if (message.id) {
+        await this.database.updateTTSQueueEntry(message.id, updates)
+      }
+      return
+    }
+  }
+
+  private async synthesizeAndPlay(
+    message: QueuedMessage,
+    ttsService: BaseTTSService,
+    config: TTSServiceConfig,
+    onPlaybackStart: () => void,
+  ): Promise<string | undefined> {
+    // Identical text in the same voice was synthesized before
+    const cachedPath = ttsService.getCachedAudioPath(message.filteredText)
+    if (cachedPath) {
+      console.log(`[TTSQueue] Found cached audio: ${cachedPath}`)
+      onPlaybackStart()
+      await this.playAudio(cachedPath)
+      return cachedPath
+    }
+
+    if (!ttsService.isAvailable()) {
+      throw new Error('TTS service not available')
+    }
+
+    const metadata: TTSMetadata = {
+      profile: message.profile,
+      timestamp: message.timestamp,
+      onRetry: (attempt, error, delay) => this.markRetrying(message, attempt, error, delay),
+    }
+    const chunking = config.chunking
+    const format = ttsService.getAudioFormat()
+    const chunks = chunking?.enabled ? splitIntoChunks(message.filteredText, chunking.maxChars) : []
+
+    // Browsers can only fetch audio from the cache, so they get the whole message at once
+    if (chunks.length <= 1 || !canConcatenateAudio(format) || this.playbackTarget !== 'server') {
+      // Generate TTS and get the audio file path (saved to permanent location)
+      const audioPath = await ttsService.tts(message.filteredText, metadata)
+
+      // Play the audio using our audio player
+      // Note: Don't use tempFile flag as the file is already saved to permanent location
+      if (audioPath) {
+        onPlaybackStart()
+        await this.playAudio(audioPath)
+      }
+      return audioPath
+    }
+
+    console.log(`[TTSQueue] Synthesizing ${chunks.length} chunks for entry ${message.id}`)
+
+    const generation = this.playbackGeneration
+    const lookahead = Math.max(0, chunking?.lookahead ?? 1)
+    const pending: Promise<AudioData>[] = []
+    const audio: AudioData[] = []
+
+    const startSynthesis = (index: number) => {
+      if (index >= chunks.length || index < pending.length) return
+      pending[index] = ttsService.synthesize(chunks[index], metadata)
+      // Errors are surfaced when the chunk is awaited below
+      pending[index].catch(() => {})
+    }
+
+    for (let i = 0; i <= lookahead; i++) {
+      startSynthesis(i)
+    }
+
+    const chunkDir = await mkdtemp(join(tmpdir(), 'agent-tts-'))
+
+    try {
+      for (let i = 0; i < chunks.length; i++) {
+        const chunkAudio = await pending[i]
+        startSynthesis(i + lookahead + 1)
+        audio.push(chunkAudio)
+
+        if (this.playbackGeneration !== generation) break
+
+        const chunkPath = join(chunkDir, `chunk-${i}.${chunkAudio.extension}`)
+        await writeFile(chunkPath, chunkAudio.data)
+        await this.waitUntilResumed()
+        if (this.playbackGeneration !== generation) break
+        onPlaybackStart()
+        await this.audioPlayer.play(chunkPath)
+
+        if (this.playbackGeneration !== generation) break
+      }
+    } finally {
+      await rm(chunkDir, { recursive: true, force: true })
+    }
+
+    if (audio.length < chunks.length) {
+      console.log(`[TTSQueue] Chunked playback interrupted for entry ${message.id}`)
+      return undefined
+    }
+
+    // Save the joined chunks so replay finds a single cached file
+    const combined = concatenateAudio(
+      audio.map((chunk) => chunk.data),
+      format,
+    )
+    return ttsService.saveAudio({ data: combined, extension: format }, message.filteredText)
+  }
+
+  /**
+   * Play a file from the audio cache wherever the playback target says
+   */
+  private async playAudio(filePath: string): Promise<void> {
+    // Audio that finished synthesizing while paused waits for resume
+    const generation = this.playbackGeneration
+    await this.waitUntilResumed()
+    if (this.playbackGeneration !== generation) return
+
+    if (this.playbackTarget === 'server') {
+      return this.audioPlayer.play(filePath)
+    }
+
+    const audioPath = this.toCachePath(filePath)
+    if (this.playbackTarget === 'browser') {
+      return this.browserPlayer.play(audioPath)
+    }
+
+    // Both: the local player paces the queue and browsers play along
+    this.browserPlayer.play(audioPath).catch(() => {})
+    return this.audioPlayer.play(filePath)
+  }
+
+  private waitUntilResumed(): Promise<void> {
+    if (!this.isPaused) return Promise.resolve()
+    return new Promise((resolve) => this.resumeWaiters.push(resolve))
+  }
+
+  private releaseResumeWaiters(): void {
+    const waiters = this.resumeWaiters
+    this.resumeWaiters = []
+    waiters.forEach((resolve) => resolve())
+  }
+
+  private stopPlayback(): void {
+    this.audioPlayer.stop()
+    this.browserPlayer.stop()
+  }
+
+  // Paths are stored relative to the cache directory so they double as the /audio URL path
+  private toCachePath(filePath: string): string {
+    return relative(AUDIO_CACHE_DIR, filePath).split(sep).join('/')
+  }
+
+  private markRetrying(message: QueuedMessage, attempt: number, error: Error, delay: number): void {
+    console.warn(`[TTSQueue] ${error.message} - retry ${attempt} for entry ${message.id} in ${delay}ms`)
+
+    if (message.id) {
+      this.database.updateTTSQueueEntry(message.id, {
+        state: 'retrying',
+        apiResponseMessage: `Retry ${attempt}: ${error.message}`,
+      })
+    }
+
+    this.emit('retrying', { message, attempt, error, delay })
+  }
+
+  private getTTSService(profile: ProfileConfig, config: TTSServiceConfig, index: number): BaseTTSService {
+    const serviceKey = `${profile.id}-${index}-${config.type}`
 
     if (!this.ttsServices.has(serviceKey)) {
-      const service = TTSServiceFactory.create(profile.ttsService)
+      const service = TTSServiceFactory.create(config)
       this.ttsServices.set(serviceKey, service)
     }
 
@@ -191,43 +503,79 @@ export class TTSQueueProcessor extends EventEmitter {
   clearQueue(): void {
     this.queue = []
     this.currentlyPlaying = null
+    this.queueUpdated()
     console.log('[TTSQueue] Queue cleared')
   }
 
   stopCurrent(): void {
     // Stop the audio if playing
-    this.audioPlayer.stop()
+    this.playbackGeneration++
+    this.stopPlayback()
+
+    this.isPaused = false
+    this.restartOnResume = null
+    this.releaseResumeWaiters()
 
     this.queue = []
     this.currentlyPlaying = null
+    this.queueUpdated()
     this.emit('stopped')
   }
 
+  /**
+   * Pause the current message where it is and hold the rest of the queue
+   */
   pauseCurrent(): void {
     console.log('[TTSQueue] pauseCurrent called')
-    if (this.audioPlayer.isPlaying()) {
-      console.log('[TTSQueue] Stopping currently playing audio')
-      this.audioPlayer.stop()
-      console.log('[TTSQueue] Audio stopped successfully')
-
-      // Clear the current playing state and queue
-      this.currentlyPlaying = null
-      this.queue = []
-    } else {
-      console.log('[TTSQueue] No audio currently playing to pause')
+    if (this.isPaused) return
+    this.isPaused = true
+
+    if (this.audioPlayer.isPlaying() && !this.audioPlayer.pause()) {
+      // The player can't be suspended on this platform, so the message restarts on resume
+      console.log('[TTSQueue] Stopping audio, it will play again from the start on resume')
+      this.restartOnResume = this.currentlyPlaying
+      this.playbackGeneration++
+      this.stopPlayback()
     }
-    this.emit('paused')
+    this.browserPlayer.pause()
+
+    this.emit('paused', this.getPauseState())
   }
 
+  /**
+   * Continue the paused message from where it was, then the rest of the queue
+   */
   resumeCurrent(): void {
-    // For now, restart queue processing
+    if (this.isPaused) {
+      this.isPaused = false
+      this.audioPlayer.resume()
+      this.browserPlayer.resume()
+      this.releaseResumeWaiters()
+    }
+
     this.processQueue()
-    this.emit('resumed')
+    this.emit('resumed', this.currentlyPlaying)
+  }
+
+  /**
+   * What was paused, or null when not paused
+   */
+  getPauseState(): PauseState | null {
+    if (!this.isPaused) return null
+
+    return {
+      messageId: this.currentlyPlaying?.id,
+      position: this.playbackTarget === 'browser' ? this.browserPlayer.getPosition() : this.audioPlayer.getPosition(),
+      queueSize: this.queue.length,
+    }
   }
 
   skipCurrent(): void {
     // Stop current audio
-    this.audioPlayer.stop()
+    this.playbackGeneration++
+    this.stopPlayback()
+    this.restartOnResume = null
+    this.releaseResumeWaiters()
 
     this.currentlyPlaying = null
     this.isProcessing = false
@@ -235,12 +583,125 @@ export class TTSQueueProcessor extends EventEmitter {
     this.emit('skipped')
   }
 
+  /**
+   * Choose where audio plays: on this machine, in connected browsers, or both
+   */
+  setPlaybackTarget(target: PlaybackTarget = 'server'): void {
+    this.playbackTarget = target
+  }
+
+  getPlaybackTarget(): PlaybackTarget {
+    return this.playbackTarget
+  }
+
+  /**
+   * Handle a browser's report on audio it was asked to play
+   */
+  acknowledgeBrowserPlayback(requestId: number, event: 'started' | 'ended', error?: string): void {
+    this.browserPlayer.acknowledge(requestId, event, error)
+  }
+
+  setBrowserClients(count: number): void {
+    this.browserPlayer.setConnectedClients(count)
+  }
+
+  /**
+   * Choose the program used to play audio. Returns false if nothing usable is installed.
+   */
+  configureAudioOutput(output?: AudioOutputConfig): boolean {
+    return this.audioPlayer.configure(output)
+  }
+
+  /**
+   * Warn about voices whose audio the configured player can't decode, so it's
+   * reported when the config loads instead of when a message is played
+   */
+  checkAudioFormats(profiles: ProfileConfig[]): string[] {
+    const warnings: string[] = []
+    const backend = this.audioPlayer.getBackendStatus().backend
+    if (!backend) return warnings
+
+    for (const profile of profiles) {
+      getTTSServiceConfigs(profile).forEach((config, index) => {
+        let format: string
+        try {
+          format = this.getTTSService(profile, config, index).getAudioFormat()
+        } catch {
+          // Reported when the service is used
+          return
+        }
+        if (!this.audioPlayer.canPlay(format)) {
+          warnings.push(
+            `${backend} cannot play the ${format} audio of profile ${profile.id}'s ${config.type} voice. Choose a different audioOutput.backend or response format`,
+          )
+        }
+      })
+    }
+
+    for (const warning of warnings) {
+      console.warn(`[TTSQueue] ${warning}`)
+    }
+    return warnings
+  }
+
+  getAudioOutputStatus(): AudioOutputStatus {
+    return this.audioPlayer.getBackendStatus()
+  }
+
   clearCachedServices(): void {
     // Clear all cached TTS service instances to force recreation with new config
     this.ttsServices.clear()
     console.log('[TTSQueue] Cleared all cached TTS services')
   }
 
+  /**
+   * Messages waiting to be played, next first
+   */
+  getQueue(): QueuedMessage[] {
+    return [...this.queue]
+  }
+
+  /**
+   * Drop a waiting message. It is marked expired so it can still be replayed by hand.
+   */
+  removeFromQueue(id: number): boolean {
+    const index = this.queue.findIndex((message) => message.id === id)
+    if (index === -1) return false
+
+    const [message] = this.queue.splice(index, 1)
+    this.queueUpdated()
+    console.log(`[TTSQueue] Removed entry ${id} from the queue`)
+
+    this.markDropped(message, 'Removed from the queue')
+    return true
+  }
+
+  // Dropped on purpose, so Retry Failed leaves them alone but they can still be replayed
+  private markDropped(message: QueuedMessage, reason: string): void {
+    if (message.id) {
+      this.database.updateTTSQueueEntry(message.id, { state: 'expired', apiResponseMessage: reason })
+    }
+    this.emit('expired', message)
+  }
+
+  /**
+   * Move a waiting message to a new position, 0 being next to play
+   */
+  moveInQueue(id: number, position: number): boolean {
+    const index = this.queue.findIndex((message) => message.id === id)
+    if (index === -1) return false
+
+    const [message] = this.queue.splice(index, 1)
+    const target = Math.max(0, Math.min(position, this.queue.length))
+    this.queue.splice(target, 0, message)
+    this.queueUpdated()
+    return true
+  }
+
+  private queueUpdated(): void {
+    this.emit('queue-updated', this.getQueue())
+  }
+
   getQueueLength(): number {
     return this.queue.length
   }
@@ -256,4 +717,8 @@ export class TTSQueueProcessor extends EventEmitter {
   isCurrentlyPlaying(): boolean {
     return this.currentlyPlaying !== null
   }
+
+  getCurrentMessage(): QueuedMessage | null {
+    return this.currentlyPlaying
+  }
 }
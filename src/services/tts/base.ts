@@ -1,7 +1,17 @@
-import { mkdir, writeFile } from 'fs/promises'
-import { join } from 'path'
+import { createHash } from 'crypto'
 import { existsSync } from 'fs'
-import { AGENT_TTS_PATHS } from '../../utils/xdg-paths.js'
+import { mkdir, writeFile } from 'fs/promises'
+import { dirname, join } from 'path'
+import { resolveAudioPath } from '../../utils/audio-cache.js'
+import { TTSMetadata } from '../../types/config.js'
+import { withRetry } from '../../utils/retry.js'
+
+export type { TTSMetadata }
+
+export interface AudioData {
+  data: Buffer
+  extension: string // File extension/format of the audio (e.g., "mp3", "wav")
+}
 
 export abstract class BaseTTSService {
   protected apiKey: string
@@ -10,34 +20,76 @@ export abstract class BaseTTSService {
     this.apiKey = config.apiKey || ''
   }
 
-  abstract tts(text: string, metadata?: { profile?: string; timestamp?: Date }): Promise<string>
+  /**
+   * Convert text to audio without saving it
+   */
+  abstract synthesize(text: string, metadata?: TTSMetadata): Promise<AudioData>
   abstract isAvailable(): boolean
 
-  protected async getAudioFilePath(profile: string, timestamp: Date, extension: string = 'mp3'): Promise<string> {
-    // Create directory structure: ~/.cache/agent-tts/audio/YYYY-MM-DD/
-    const audioBaseDir = join(AGENT_TTS_PATHS.cache, 'audio')
-    const dateStr = timestamp.toISOString().split('T')[0] // YYYY-MM-DD
-    const audioDir = join(audioBaseDir, dateStr)
+  /**
+   * Returns the format that synthesize() produces, so callers can decide
+   * up front whether chunks of audio can be concatenated
+   */
+  getAudioFormat(): string {
+    return 'mp3'
+  }
 
-    // Ensure directory exists
-    await mkdir(audioDir, { recursive: true })
+  /**
+   * Convert text to audio and save it to the audio cache
+   */
+  async tts(text: string, metadata?: TTSMetadata): Promise<string> {
+    const audio = await this.synthesize(text, metadata)
+    return this.saveAudio(audio, text)
+  }
+
+  async saveAudio(audio: AudioData, text: string): Promise<string> {
+    return this.saveAudioData(audio.data, text, audio.extension)
+  }
 
-    // Create filename: profile-id-timestamp.mp3
-    const epochTimestamp = Math.floor(timestamp.getTime() / 1000)
-    const filename = `${profile}-${epochTimestamp}.${extension}`
-    const destPath = join(audioDir, filename)
+  /**
+   * Identifies the audio this service produces for the text. Covers every
+   * setting that changes the voice, so changing one never replays stale audio.
+   */
+  getCacheKey(text: string): string {
+    const { type, name, voiceId, model, baseUrl, command, args, options } = this.config
+    const key = JSON.stringify({ text, type, name, voiceId, model, baseUrl, command, args, options })
+    return createHash('sha256').update(key).digest('hex')
+  }
+
+  /**
+   * Returns the path of previously synthesized audio for the text, if any
+   */
+  getCachedAudioPath(text: string): string | null {
+    const filePath = resolveAudioPath(this.getRelativeAudioPath(text, this.getAudioFormat()))
+    return existsSync(filePath) ? filePath : null
+  }
+
+  /**
+   * Run a request to the service, retrying transient failures with backoff
+   * as configured in `retry`
+   */
+  protected async withRetry<T>(operation: () => Promise<T>, metadata?: TTSMetadata): Promise<T> {
+    return withRetry(operation, { ...this.config.retry, onRetry: metadata?.onRetry })
+  }
+
+  protected getRelativeAudioPath(text: string, extension: string): string {
+    // Spread files over subdirectories named after the first two hex digits of the key
+    const key = this.getCacheKey(text)
+    return join(key.slice(0, 2), `${key}.${extension}`)
+  }
+
+  protected async getAudioFilePath(text: string, extension: string = 'mp3'): Promise<string> {
+    const destPath = resolveAudioPath(this.getRelativeAudioPath(text, extension))
+
+    // Ensure directory exists
+    await mkdir(dirname(destPath), { recursive: true })
 
     return destPath
   }
 
-  protected async saveAudioData(
-    audioData: Buffer,
-    profile: string,
-    timestamp: Date,
-    extension: string = 'mp3',
-  ): Promise<string> {
+  protected async saveAudioData(audioData: Buffer, text: string, extension: string = 'mp3'): Promise<string> {
     try {
-      const destPath = await this.getAudioFilePath(profile, timestamp, extension)
+      const destPath = await this.getAudioFilePath(text, extension)
       await writeFile(destPath, audioData)
       console.log(`[TTS] Saved audio to: ${destPath}`)
       return destPath
@@ -0,0 +1,82 @@
+import { mkdtemp, readFile, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { AudioData, BaseTTSService } from './base.js'
+import { TTSServiceConfig } from '../../types/config.js'
+import { commandExists } from '../../utils/command-exists.js'
+import { runCommand } from '../../utils/run-command.js'
+
+const PLACEHOLDER = /\{(text|voice|speed|output)\}/g
+
+/**
+ * Command TTS Service
+ *
+ * Runs a local speech engine (e.g. piper or espeak-ng) for each request, so
+ * speech works fully offline without an HTTP server. Arguments may contain:
+ * - `{text}`: the text to speak. Without it, the text is written to stdin
+ * - `{voice}`: the configured voiceId
+ * - `{speed}`: options.speed
+ * - `{output}`: a temp file the engine writes to. Without it, audio is read from stdout
+ *
+ * The command is spawned without a shell.
+ */
+export class CommandTTSService extends BaseTTSService {
+  private command: string
+  private args: string[]
+  private format: string
+  private timeout: number
+
+  constructor(config: TTSServiceConfig) {
+    super(config)
+
+    if (!config.command) {
+      throw new Error('Command TTS service requires a command')
+    }
+
+    this.command = config.command
+    this.args = config.args || []
+    this.format = config.options?.format ?? 'wav'
+    this.timeout = config.options?.timeout ?? 60000
+
+    console.log(`[Command] Initializing with command: ${this.command}`)
+  }
+
+  async synthesize(text: string): Promise<AudioData> {
+    const usesOutputFile = this.args.some((arg) => arg.includes('{output}'))
+    const outputDir = usesOutputFile ? await mkdtemp(join(tmpdir(), 'agent-tts-command-')) : null
+    const outputPath = outputDir ? join(outputDir, `speech.${this.format}`) : ''
+
+    try {
+      const values: Record<string, string> = {
+        text,
+        voice: this.config.voiceId ?? '',
+        speed: String(this.config.options?.speed ?? 1),
+        output: outputPath,
+      }
+      // Substituted in one pass, so placeholders and `$` patterns in the text are left as they are
+      const args = this.args.map((arg) => arg.replace(PLACEHOLDER, (_, name) => values[name]))
+      const stdin = this.args.some((arg) => arg.includes('{text}')) ? null : text
+
+      const stdout = await runCommand(this.command, args, { label: 'TTS command', timeout: this.timeout, input: stdin })
+      const data = outputDir ? await readFile(outputPath) : stdout
+
+      if (data.length === 0) {
+        throw new Error('TTS command produced no audio')
+      }
+
+      return { data, extension: this.format }
+    } finally {
+      if (outputDir) {
+        await rm(outputDir, { recursive: true, force: true })
+      }
+    }
+  }
+
+  getAudioFormat(): string {
+    return this.format
+  }
+
+  isAvailable(): boolean {
+    return commandExists(this.command)
+  }
+}
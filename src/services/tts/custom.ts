@@ -0,0 +1,66 @@
+import { readFile } from 'fs/promises'
+import { extname } from 'path'
+import { AudioData, BaseTTSService, TTSMetadata } from './base.js'
+import { TTSServiceConfig } from '../../types/config.js'
+
+/**
+ * Custom TTS Service
+ *
+ * Adapts a user-supplied synthesize function from the config. The function may
+ * return the audio itself, or the path of an audio file it wrote. Either way
+ * the audio is saved through the regular cache so replay works as usual. The
+ * required name keeps the cached audio of different engines apart.
+ */
+export class CustomTTSService extends BaseTTSService {
+  private synthesizeFn: NonNullable<TTSServiceConfig['synthesize']>
+  private isAvailableFn?: () => boolean
+  private format: string
+
+  constructor(config: TTSServiceConfig) {
+    super(config)
+
+    if (!config.synthesize) {
+      throw new Error('Custom TTS service requires a synthesize function')
+    }
+
+    // Functions can't be part of the cache key, so the name tells engines apart
+    if (!config.name) {
+      throw new Error('Custom TTS service requires a name')
+    }
+
+    this.synthesizeFn = config.synthesize
+    this.isAvailableFn = config.isAvailable
+    this.format = config.options?.format ?? 'mp3'
+  }
+
+  async synthesize(text: string, metadata: TTSMetadata = {}): Promise<AudioData> {
+    const result = await this.synthesizeFn(text, metadata)
+
+    if (Buffer.isBuffer(result)) {
+      return { data: result, extension: this.format }
+    }
+
+    if (typeof result === 'string') {
+      const data = await readFile(result)
+      const extension = extname(result).slice(1) || this.format
+      return { data, extension }
+    }
+
+    throw new Error('Custom TTS synthesize function must return a Buffer or a file path')
+  }
+
+  getAudioFormat(): string {
+    return this.format
+  }
+
+  isAvailable(): boolean {
+    if (!this.isAvailableFn) return true
+
+    try {
+      return this.isAvailableFn()
+    } catch (error) {
+      console.error('[Custom] isAvailable check failed:', error)
+      return false
+    }
+  }
+}
@@ -1,5 +1,5 @@
 import { ElevenLabsClient } from '@elevenlabs/elevenlabs-js'
-import { BaseTTSService } from './base.js'
+import { AudioData, BaseTTSService, TTSMetadata } from './base.js'
 import { TTSServiceConfig } from '../../types/config.js'
 
 export class ElevenLabsTTSService extends BaseTTSService {
@@ -26,8 +26,9 @@ export class ElevenLabsTTSService extends BaseTTSService {
     }
   }
 
-  async tts(text: string, metadata?: { profile?: string; timestamp?: Date }): Promise<string> {
-    if (!this.client) {
+  async synthesize(text: string, metadata?: TTSMetadata): Promise<AudioData> {
+    const client = this.client
+    if (!client) {
       throw new Error('ElevenLabs client not initialized. Please provide an API key.')
     }
 
@@ -38,28 +39,30 @@ export class ElevenLabsTTSService extends BaseTTSService {
       console.log(`[ElevenLabs] Full text: ${text}`)
     }
 
+    return this.withRetry(() => this.requestSpeech(client, text), metadata)
+  }
+
+  private async requestSpeech(client: ElevenLabsClient, text: string): Promise<AudioData> {
     try {
-      const audioStream = await this.client.textToSpeech.convert(this.voiceId, {
-        text,
-        modelId: this.model,
-        outputFormat: 'mp3_44100_128',
-        voiceSettings: {
-          stability: this.stability,
-          similarityBoost: this.similarityBoost,
+      const audioStream = await client.textToSpeech.convert(
+        this.voiceId,
+        {
+          text,
+          modelId: this.model,
+          outputFormat: 'mp3_44100_128',
+          voiceSettings: {
+            stability: this.stability,
+            similarityBoost: this.similarityBoost,
+          },
         },
-      })
+        // Retries are handled by withRetry so they follow the profile's retry config
+        { maxRetries: 0 },
+      )
 
       // Convert stream to buffer
       const audioBuffer = await this.streamToBuffer(audioStream)
 
-      // Save directly to permanent location
-      if (metadata?.profile && metadata?.timestamp) {
-        const audioPath = await this.saveAudioData(audioBuffer, metadata.profile, metadata.timestamp, 'mp3')
-        return audioPath
-      } else {
-        // If no metadata, we need to create a temp path (shouldn't happen in normal flow)
-        throw new Error('Metadata required for audio file storage')
-      }
+      return { data: audioBuffer, extension: 'mp3' }
     } catch (error: any) {
       // Extract useful error information without dumping entire request object
       let errorMessage = 'TTS request failed'
@@ -85,6 +88,7 @@ export class ElevenLabsTTSService extends BaseTTSService {
           const retryAfter = error.response.headers?.['retry-after']
           if (retryAfter) {
             errorDetails.retryAfter = `${retryAfter} seconds`
+            errorDetails.retryAfterMs = Number(retryAfter) * 1000 || undefined
           }
         } else if (error.response.status === 401) {
           errorMessage = 'Unauthorized - check ElevenLabs API key'
@@ -93,7 +97,18 @@ export class ElevenLabsTTSService extends BaseTTSService {
         } else if (error.response.status === 422) {
           errorMessage = 'Invalid voice ID or parameters'
         }
+      } else if (error.statusCode) {
+        // Errors raised by the ElevenLabs SDK carry the status directly
+        errorDetails.status = error.statusCode
+        if (error.statusCode === 429) {
+          errorMessage = 'Rate limited - too many requests'
+        } else if (error.statusCode === 401) {
+          errorMessage = 'Unauthorized - check ElevenLabs API key'
+        } else if (error.message) {
+          errorMessage = error.message
+        }
       } else if (error.message) {
+        errorDetails.code = error.code ?? error.cause?.code
         errorMessage = error.message
       }
 
@@ -3,6 +3,9 @@ import { BaseTTSService } from './base.js'
 import { ElevenLabsTTSService } from './elevenlabs.js'
 import { OpenAITTSService } from './openai.js'
 import { KokoroTTSService } from './kokoro.js'
+import { CommandTTSService } from './command.js'
+import { MockTTSService } from './mock.js'
+import { CustomTTSService } from './custom.js'
 
 export class TTSServiceFactory {
   static create(config: TTSServiceConfig): BaseTTSService {
@@ -16,8 +19,17 @@ export class TTSServiceFactory {
       case 'openai-compatible':
         // For any OpenAI-compatible service (requires baseUrl)
         return new OpenAITTSService(config)
+      case 'command':
+        // Local engines such as piper or espeak-ng
+        return new CommandTTSService(config)
+      case 'mock':
+        // Deterministic offline audio for tests and development
+        return new MockTTSService(config)
       case 'custom':
-        throw new Error('Custom TTS service not yet implemented')
+        if (!config.synthesize) {
+          throw new Error('Custom TTS service requires a synthesize function')
+        }
+        return new CustomTTSService(config)
       default:
         throw new Error(`Unknown TTS service type: ${config.type}`)
     }
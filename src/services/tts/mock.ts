@@ -0,0 +1,102 @@
+import { AudioData, BaseTTSService } from './base.js'
+import { TTSServiceConfig } from '../../types/config.js'
+import { buildWav } from '../../utils/audio.js'
+import { TTSErrorDetails } from '../../utils/retry.js'
+
+const SAMPLE_RATE = 16000
+
+// Reported like a service outage, so retries treat it as transient
+class SimulatedTTSError extends Error {
+  details: TTSErrorDetails = { status: 503 }
+
+  constructor() {
+    super('Simulated TTS failure')
+  }
+}
+
+/**
+ * Mock TTS Service
+ *
+ * Generates a deterministic WAV tone (or silence) whose duration scales with
+ * the length of the text. Needs no API key, network or local server, so the
+ * queue, caching and error handling can be exercised in tests and offline.
+ *
+ * Options:
+ * - frequency: tone in Hz, 0 for silence (default: 440)
+ * - msPerChar: audio duration per character of text (default: 60)
+ * - latency: simulated request time in ms (default: 0)
+ * - failureRate: fraction of requests that fail, 0 to 1 (default: 0)
+ * - seed: seed for the failure sequence, so failures are reproducible (default: 1)
+ */
+export class MockTTSService extends BaseTTSService {
+  private frequency: number
+  private msPerChar: number
+  private latency: number
+  private failureRate: number
+  private randomState: number
+
+  constructor(config: TTSServiceConfig) {
+    super(config)
+
+    this.frequency = config.options?.frequency ?? 440
+    this.msPerChar = config.options?.msPerChar ?? 60
+    this.latency = config.options?.latency ?? 0
+    this.failureRate = config.options?.failureRate ?? 0
+    this.randomState = config.options?.seed ?? 1
+
+    console.log(`[Mock] Initializing with frequency: ${this.frequency}Hz, latency: ${this.latency}ms`)
+  }
+
+  async synthesize(text: string): Promise<AudioData> {
+    if (this.latency > 0) {
+      await new Promise((resolve) => setTimeout(resolve, this.latency))
+    }
+
+    if (this.failureRate > 0 && this.nextRandom() < this.failureRate) {
+      throw new SimulatedTTSError()
+    }
+
+    const durationMs = Math.max(200, text.length * this.msPerChar)
+    return { data: this.generateWav(durationMs), extension: 'wav' }
+  }
+
+  getAudioFormat(): string {
+    return 'wav'
+  }
+
+  isAvailable(): boolean {
+    return true
+  }
+
+  private generateWav(durationMs: number): Buffer {
+    const sampleCount = Math.round((SAMPLE_RATE * durationMs) / 1000)
+    const data = Buffer.alloc(sampleCount * 2)
+
+    if (this.frequency > 0) {
+      for (let i = 0; i < sampleCount; i++) {
+        const sample = Math.sin((2 * Math.PI * this.frequency * i) / SAMPLE_RATE) * 0.2
+        data.writeInt16LE(Math.round(sample * 32767), i * 2)
+      }
+    }
+
+    // PCM, mono, 16-bit
+    const format = Buffer.alloc(16)
+    format.writeUInt16LE(1, 0) // Audio format (PCM)
+    format.writeUInt16LE(1, 2) // Channels
+    format.writeUInt32LE(SAMPLE_RATE, 4) // Sample rate
+    format.writeUInt32LE(SAMPLE_RATE * 2, 8) // Byte rate
+    format.writeUInt16LE(2, 12) // Block align
+    format.writeUInt16LE(16, 14) // Bits per sample
+
+    return buildWav(format, data)
+  }
+
+  // Mulberry32 PRNG so the failure sequence is reproducible for a given seed
+  private nextRandom(): number {
+    this.randomState = (this.randomState + 0x6d2b79f5) | 0
+    let t = this.randomState
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
@@ -1,4 +1,4 @@
-import { BaseTTSService } from './base.js'
+import { AudioData, BaseTTSService, TTSMetadata } from './base.js'
 import { TTSServiceConfig } from '../../types/config.js'
 import axios from 'axios'
 
@@ -24,7 +24,11 @@ export class OpenAITTSService extends BaseTTSService {
     console.log(`[OpenAI] Initializing with base URL: ${this.baseUrl}, voice: ${this.voiceId}, model: ${this.model}`)
   }
 
-  async tts(text: string, metadata?: { profile?: string; timestamp?: Date }): Promise<string> {
+  getAudioFormat(): string {
+    return ['opus', 'aac', 'flac', 'wav', 'pcm'].includes(this.responseFormat) ? this.responseFormat : 'mp3'
+  }
+
+  async synthesize(text: string, metadata?: TTSMetadata): Promise<AudioData> {
     if (!this.apiKey) {
       throw new Error('OpenAI-compatible service requires an API key')
     }
@@ -36,6 +40,10 @@ export class OpenAITTSService extends BaseTTSService {
       console.log(`[OpenAI] Full text: ${text}`)
     }
 
+    return this.withRetry(() => this.requestSpeech(text), metadata)
+  }
+
+  private async requestSpeech(text: string): Promise<AudioData> {
     try {
       const requestBody: any = {
         model: this.model,
@@ -58,33 +66,7 @@ export class OpenAITTSService extends BaseTTSService {
         responseType: 'arraybuffer',
       })
 
-      // Determine file extension
-      const extension =
-        this.responseFormat === 'opus'
-          ? 'opus'
-          : this.responseFormat === 'aac'
-            ? 'aac'
-            : this.responseFormat === 'flac'
-              ? 'flac'
-              : this.responseFormat === 'wav'
-                ? 'wav'
-                : this.responseFormat === 'pcm'
-                  ? 'pcm'
-                  : 'mp3'
-
-      // Save directly to permanent location
-      if (metadata?.profile && metadata?.timestamp) {
-        const audioPath = await this.saveAudioData(
-          Buffer.from(response.data),
-          metadata.profile,
-          metadata.timestamp,
-          extension,
-        )
-        return audioPath
-      } else {
-        // If no metadata, we need to create a temp path (shouldn't happen in normal flow)
-        throw new Error('Metadata required for audio file storage')
-      }
+      return { data: Buffer.from(response.data), extension: this.getAudioFormat() }
     } catch (error: any) {
       // Extract useful error information without dumping entire request object
       let errorMessage = 'TTS request failed'
@@ -120,14 +102,20 @@ export class OpenAITTSService extends BaseTTSService {
         // Add helpful context based on status code
         if (error.response.status === 429) {
           errorMessage = 'Rate limited - too many requests'
+          const retryAfter = Number(error.response.headers?.['retry-after'])
+          if (retryAfter > 0) {
+            errorDetails.retryAfterMs = retryAfter * 1000
+          }
         } else if (error.response.status === 401) {
           errorMessage = 'Unauthorized - check API key'
         } else if (error.response.status === 400) {
           errorMessage = errorMessage || 'Bad request - check parameters'
         }
       } else if (error.code === 'ECONNREFUSED') {
+        errorDetails.code = error.code
         errorMessage = `Cannot connect to TTS service at ${this.baseUrl}`
       } else if (error.message) {
+        errorDetails.code = error.code
         errorMessage = error.message
       }
 
@@ -1,3 +1,5 @@
+import type { SummarizerConfig } from '../types/config.js'
+
 export interface PronunciationRule {
   pattern: string | RegExp
   replacement: string
@@ -17,13 +19,20 @@ export interface TTSLogEntry {
   profile: string // profile name
   originalText: string
   filteredText: string
-  status: 'queued' | 'played' | 'error'
+  status: 'queued' | 'retrying' | 'played' | 'error' | 'expired'
   ttsStatus: number
   ttsMessage: string
   elapsed: number
   cwd?: string // current working directory
+  sessionId?: string // Agent session the message belongs to
+  gitBranch?: string
+  model?: string // Model of the agent that wrote the message
   role?: 'user' | 'assistant' | 'bash' // Track the role for proper display
   images?: string // Comma-delimited list of image paths
+  ttsFallback?: string // TTS service type used when the primary service failed
+  audioPath?: string // Synthesized audio, relative to the audio cache directory
+  audioFormat?: string // File extension of the audio (e.g., "mp3", "wav")
+  audioMimeType?: string
 }
 
 export type FilterFunction = (text: string) => string
@@ -54,6 +63,7 @@ export interface ProfileConfig {
     disabled: string[] // names of built-in filters to disable
     custom: CustomFilter[] // custom filters
   }
+  summarizer?: SummarizerConfig // optional summarizer for long messages
 }
 
 // Root configuration interface
@@ -8,21 +8,71 @@ export interface ProfileConfig {
   watchPaths: string[]
   parser: ParserConfig
   filters: FilterConfig[]
-  ttsService: TTSServiceConfig
+  ttsService: TTSServiceConfig | TTSServiceConfig[] // A list is tried in order until one succeeds
+  summarizer?: SummarizerConfig // Shorten long assistant messages before TTS (default: none)
+  priority?: number // Messages from higher priority profiles play first (default: 0)
+  interruption?: InterruptionPolicy // What a new message does when others are playing or queued (default: 'queue')
+  maxAgeSeconds?: number // Skip messages that waited in the queue longer than this (default: no limit)
+  coalesce?: CoalesceConfig // Speak a burst of messages from the same session once (default: off)
 }
 
+export interface CoalesceConfig {
+  windowSeconds: number // A burst ends once no message has arrived for this long
+  mode?: 'last' | 'merge' // Speak only the final message, or all of them as one (default: 'last')
+}
+
+// - queue: wait in line behind messages of the same or higher priority
+// - interrupt-lower: also cut off a lower priority message that is playing
+// - replace-same-profile: drop older unplayed messages from the same session
+// - drop-if-busy: skip the message if anything is playing or queued
+export type InterruptionPolicy = 'queue' | 'interrupt-lower' | 'replace-same-profile' | 'drop-if-busy'
+
 export interface ParserConfig {
-  type: 'claude-code' | 'claudia-code' | 'opencode' | 'custom'
+  type: 'claude-code' | 'claudia-code' | 'opencode' | 'codex' | 'gemini' | 'aider' | 'jsonl-mapping' | 'custom'
   name?: string // Display name for the tool (e.g., "Claude Code", "OpenCode")
   iconUrl?: string // URL to tool icon (e.g., /images/claude-code.png)
-  customParser?: (content: string) => ParsedMessage[]
+  customParser?: (content: string, filePath?: string) => ParsedMessage[]
+  mapping?: JsonlMappingConfig // Required for 'jsonl-mapping'
+}
+
+/**
+ * Where to find each part of a message in a line of a JSONL log. Fields are
+ * JSONPath-style paths such as `message.content[*].text`.
+ */
+export interface JsonlMappingConfig {
+  role: string
+  roles?: Record<string, 'user' | 'assistant'> // Map the log's role values, e.g. { human: 'user' }. Other lines are skipped
+  text: string // A string, or an array of strings or { text } blocks, which are joined
+  timestamp?: string // ISO date string, or epoch seconds or milliseconds
+  cwd?: string
+  sessionId?: string
+  gitBranch?: string
+  model?: string
+  images?: string // Base64 data URLs, or image blocks like Claude's { type: 'image', source }
+  skip?: JsonlSkipRule[] // Lines matching any of these are skipped
+  logMode?: 'append' | 'new' // (default: 'append')
+}
+
+// Give exactly one of equals, matches or exists
+export interface JsonlSkipRule {
+  path: string
+  equals?: string | number | boolean | null
+  matches?: string // Regular expression tested against the value as a string
+  exists?: boolean
+}
+
+// What a log file says about its session, remembered between incremental chunks
+export interface SessionMetadata {
+  cwd?: string
+  sessionId?: string
+  gitBranch?: string
+  model?: string // Model of the agent, not the TTS service
 }
 
-export interface ParsedMessage {
+export interface ParsedMessage extends SessionMetadata {
   role: 'user' | 'assistant' | 'system' | 'bash'
   content: string
   timestamp?: Date
-  cwd?: string
   images?: string[] // Array of relative image paths (e.g., ["a3f2/a3f2b5c7....png"])
 }
 
@@ -33,8 +83,14 @@ export interface FilterConfig {
   filter?: (message: ParsedMessage) => ParsedMessage | null // Custom filter function
 }
 
+export interface TTSMetadata {
+  profile?: string
+  timestamp?: Date
+  onRetry?: (attempt: number, error: Error, delay: number) => void // Called before each retry of a failed request
+}
+
 export interface TTSServiceConfig {
-  type: 'elevenlabs' | 'openai' | 'kokoro' | 'openai-compatible' | 'custom'
+  type: 'elevenlabs' | 'openai' | 'kokoro' | 'openai-compatible' | 'command' | 'mock' | 'custom'
   apiKey?: string
   voiceId?: string
   model?: string
@@ -42,6 +98,23 @@ export interface TTSServiceConfig {
   avatarUrl?: string // URL to avatar image (PNG/JPG)
   profileUrl?: string // URL to profile image (PNG/JPG)
   voiceName?: string // Display name for the voice
+  retry?: {
+    maxRetries?: number // Retries for rate limits, server errors and refused connections, 0 to disable (default: 3)
+    initialDelay?: number // Milliseconds before the first retry, doubled each time (default: 1000)
+    maxDelay?: number // Upper bound for a single delay (default: 30000)
+  }
+  chunking?: {
+    enabled?: boolean // Synthesize and play long messages sentence by sentence (default: false)
+    maxChars?: number // Maximum characters per chunk (default: 250)
+    lookahead?: number // Chunks synthesized ahead of the one playing (default: 1)
+  }
+  // Command TTS: `{text}`, `{voice}`, `{speed}` and `{output}` in args are replaced
+  command?: string
+  args?: string[]
+  // Custom TTS: return audio data, or the path of an audio file you wrote
+  name?: string // Identifies the engine in the audio cache, so custom providers don't share audio
+  synthesize?: (text: string, metadata: TTSMetadata) => Promise<Buffer | string>
+  isAvailable?: () => boolean
   options?: {
     // ElevenLabs options
     stability?: number
@@ -51,11 +124,44 @@ export interface TTSServiceConfig {
     speed?: number
     responseFormat?: 'mp3' | 'opus' | 'aac' | 'flac' | 'wav' | 'pcm'
 
+    // Command options
+    timeout?: number // Milliseconds before the command is killed (default: 60000)
+
+    // Mock options
+    frequency?: number
+    msPerChar?: number
+    latency?: number
+    failureRate?: number
+    seed?: number
+
+    // Custom options
+    format?: string // Format of the audio produced (default: mp3, or wav for command)
+
     // Any additional provider-specific options
     [key: string]: any
   }
 }
 
+export interface SummarizerConfig {
+  type: 'none' | 'extractive' | 'command' | 'openai-compatible'
+  minLength?: number // Only summarize messages longer than this many characters (default: 100)
+  prompt?: string // Instructions given to the summarizer (default: built-in TTS prompt)
+  timeout?: number // Milliseconds before giving up and using the filtered text (default: 30000)
+
+  // Extractive options: keeps the highest scoring sentences of the filtered text
+  maxWords?: number // Target word count (default: 75)
+
+  // Command options: the message is written to stdin, the summary is read from stdout
+  command?: string
+  args?: string[] // `{prompt}` in any argument is replaced with the prompt
+
+  // OpenAI-compatible chat completion options
+  baseUrl?: string
+  apiKey?: string
+  model?: string
+  maxTokens?: number
+}
+
 export interface AgentTTSConfig {
   profiles: ProfileConfig[]
   globalHotkey?: string
@@ -64,6 +170,55 @@ export interface AgentTTSConfig {
   configPath?: string
   serverPort?: number // Backend API server port (default: 3456)
   clientPort?: number // Frontend dev server port (default: 5173)
+  retention?: RetentionConfig // Limits for the audio cache (default: keep everything)
+  audioOutput?: AudioOutputConfig // Program used to play audio (default: detected)
+  playbackTarget?: PlaybackTarget // Where audio plays (default: 'server')
+  restoreQueue?: RestoreQueueConfig // Queue messages left unplayed by the last run (default: off)
+  quietHours?: QuietHoursRule[] // Times when messages are logged but not spoken
+}
+
+export type Weekday = 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat' | 'sun'
+
+export interface QuietHoursRule {
+  name?: string // Shown while the rule is active, e.g. "Standup"
+  days?: Weekday[] // Days the rule starts on (default: every day)
+  start: string // Local time as "HH:MM"
+  end: string // "HH:MM", earlier than start to run past midnight
+  profiles?: string[] // Profile ids the rule applies to (default: all)
+}
+
+export interface RestoreQueueConfig {
+  enabled: boolean
+  maxAgeSeconds?: number // Older messages are marked expired instead (default: 600)
+}
+
+// 'server' plays on this machine, 'browser' in the open dashboards, 'both' in both places
+export type PlaybackTarget = 'server' | 'browser' | 'both'
+
+export type AudioBackendName =
+  | 'auto'
+  | 'afplay'
+  | 'ffplay'
+  | 'mpv'
+  | 'pw-play'
+  | 'paplay'
+  | 'aplay'
+  | 'powershell'
+  | 'command'
+
+export interface AudioOutputConfig {
+  backend?: AudioBackendName // Player to use (default: 'auto', the first one installed)
+  device?: string // Output device or sink, e.g. a PulseAudio sink name or ALSA device
+  volume?: number // Playback volume, 0 to 1 (default: player default)
+  command?: string // Executable for the 'command' backend
+  args?: string[] // Arguments for the 'command' backend, with {file}, {device} and {volume} placeholders
+}
+
+export interface RetentionConfig {
+  maxAgeDays?: number // Delete audio older than this many days
+  maxBytes?: number // Delete the oldest audio while the cache is larger than this
+  keepFavorites?: boolean // Never delete audio of favorite messages (default: true)
+  pruneLogs?: boolean // Also delete log entries older than maxAgeDays (default: false)
 }
 
 export interface FileState {
@@ -71,6 +226,7 @@ export interface FileState {
   lastModified: number
   fileSize: number
   lastProcessedOffset: number
+  session?: SessionMetadata
 }
 
 export interface TTSQueueEntry {
@@ -80,12 +236,19 @@ export interface TTSQueueEntry {
   profile: string
   originalText: string
   filteredText: string
-  state: 'queued' | 'playing' | 'played' | 'error' | 'user'
+  state: 'queued' | 'playing' | 'retrying' | 'played' | 'error' | 'user' | 'expired'
   apiResponseStatus?: number
   apiResponseMessage?: string
   processingTime?: number
   isFavorite?: boolean
   cwd?: string
+  sessionId?: string
+  gitBranch?: string
+  model?: string // Model of the agent that wrote the message
   role?: 'user' | 'assistant' | 'bash' // Track the role for proper display
   images?: string // Comma-delimited list of image paths
+  ttsFallback?: string // TTS service type used when the primary service failed
+  audioPath?: string // Synthesized audio, relative to the audio cache directory
+  audioFormat?: string // File extension of the audio (e.g., "mp3", "wav")
+  audioMimeType?: string
 }
@@ -0,0 +1,22 @@
+import { join } from 'path'
+import { AGENT_TTS_PATHS } from './xdg-paths.js'
+
+/**
+ * Synthesized audio lives under ~/.cache/agent-tts/audio and is served at /audio.
+ * Entries store paths relative to this directory.
+ */
+export const AUDIO_CACHE_DIR = join(AGENT_TTS_PATHS.cache, 'audio')
+
+export function resolveAudioPath(relativePath: string): string {
+  return join(AUDIO_CACHE_DIR, relativePath)
+}
+
+/**
+ * Entries created before the content-addressed cache have no stored audio
+ * path. Their audio was saved as YYYY-MM-DD/profile-epochSeconds.mp3.
+ */
+export function getLegacyAudioPath(profile: string, timestamp: Date): string {
+  const dateStr = timestamp.toISOString().split('T')[0] // YYYY-MM-DD
+  const epochTimestamp = Math.floor(timestamp.getTime() / 1000)
+  return `${dateStr}/${profile}-${epochTimestamp}.mp3`
+}
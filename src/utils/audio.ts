@@ -0,0 +1,189 @@
+/**
+ * Helpers for working with synthesized audio buffers
+ */
+
+// Formats whose chunks can be joined into one playable file
+// - mp3 is a stream of self-contained frames once each chunk's tags are removed (see stripMp3Metadata)
+// - aac (ADTS) is a stream of self-contained frames, so bytes can be appended
+// - pcm is headerless raw samples
+// - wav needs its header rewritten (see concatWav)
+const CONCATENABLE_FORMATS = new Set(['mp3', 'aac', 'pcm', 'wav'])
+
+export function canConcatenateAudio(format: string): boolean {
+  return CONCATENABLE_FORMATS.has(format)
+}
+
+const MIME_TYPES: Record<string, string> = {
+  mp3: 'audio/mpeg',
+  opus: 'audio/ogg', // OpenAI returns Opus in an Ogg container
+  ogg: 'audio/ogg',
+  aac: 'audio/aac',
+  flac: 'audio/flac',
+  wav: 'audio/wav',
+  m4a: 'audio/mp4',
+  webm: 'audio/webm',
+  pcm: 'audio/pcm', // Headerless samples, which browsers can't play
+}
+
+export function getAudioMimeType(format: string): string {
+  return MIME_TYPES[format.toLowerCase()] ?? 'application/octet-stream'
+}
+
+export function concatenateAudio(buffers: Buffer[], format: string): Buffer {
+  if (buffers.length === 1) return buffers[0]
+
+  if (format === 'wav') {
+    return concatWav(buffers)
+  }
+
+  if (format === 'mp3') {
+    return Buffer.concat(buffers.map(stripMp3Metadata))
+  }
+
+  if (!canConcatenateAudio(format)) {
+    throw new Error(`Cannot concatenate ${format} audio`)
+  }
+
+  return Buffer.concat(buffers)
+}
+
+export interface WavParts {
+  format: Buffer // Contents of the "fmt " chunk
+  data: Buffer // Contents of the "data" chunk
+}
+
+export function parseWav(buffer: Buffer): WavParts {
+  if (buffer.toString('ascii', 0, 4) !== 'RIFF' || buffer.toString('ascii', 8, 12) !== 'WAVE') {
+    throw new Error('Invalid WAV data')
+  }
+
+  let format: Buffer | null = null
+  let data: Buffer | null = null
+  let offset = 12
+
+  while (offset + 8 <= buffer.length) {
+    const id = buffer.toString('ascii', offset, offset + 4)
+    let size = buffer.readUInt32LE(offset + 4)
+    const start = offset + 8
+
+    // Streaming encoders write 0 or 0xFFFFFFFF when the length is unknown
+    if (id === 'data' && (size === 0 || size === 0xffffffff || start + size > buffer.length)) {
+      size = buffer.length - start
+    }
+
+    if (id === 'fmt ') {
+      format = buffer.subarray(start, start + size)
+    } else if (id === 'data') {
+      data = buffer.subarray(start, start + size)
+    }
+
+    // Chunks are padded to an even number of bytes
+    offset = start + size + (size % 2)
+  }
+
+  if (!format || !data) {
+    throw new Error('Invalid WAV data: missing fmt or data chunk')
+  }
+
+  return { format, data }
+}
+
+export function concatWav(buffers: Buffer[]): Buffer {
+  const parts = buffers.map(parseWav)
+  const format = parts[0].format
+
+  for (const part of parts) {
+    if (!part.format.equals(format)) {
+      throw new Error('Cannot concatenate WAV audio with different formats')
+    }
+  }
+
+  const data = Buffer.concat(parts.map((part) => part.data))
+  return buildWav(format, data)
+}
+
+export function buildWav(format: Buffer, data: Buffer): Buffer {
+  const header = Buffer.alloc(20)
+  header.write('RIFF', 0, 'ascii')
+  header.writeUInt32LE(4 + 8 + format.length + 8 + data.length, 4)
+  header.write('WAVE', 8, 'ascii')
+  header.write('fmt ', 12, 'ascii')
+  header.writeUInt32LE(format.length, 16)
+
+  const dataHeader = Buffer.alloc(8)
+  dataHeader.write('data', 0, 'ascii')
+  dataHeader.writeUInt32LE(data.length, 4)
+
+  return Buffer.concat([header, format, dataHeader, data])
+}
+
+// Layer III bitrates in kbps by bitrate index, for MPEG-1 and MPEG-2/2.5
+const MP3_BITRATES = {
+  mpeg1: [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  mpeg2: [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+}
+
+// Sample rates in Hz by sample rate index, keyed by the header's version bits
+const MP3_SAMPLE_RATES: Record<number, number[]> = {
+  3: [44100, 48000, 32000], // MPEG-1
+  2: [22050, 24000, 16000], // MPEG-2
+  0: [11025, 12000, 8000], // MPEG-2.5
+}
+
+/**
+ * Remove the tags and header frame an encoder writes around an MP3 file
+ *
+ * Leaves only the audio frames, so chunks can be appended without ID3 tags
+ * ending up mid-stream or the first chunk's Xing/LAME (or VBRI) frame giving
+ * players the wrong duration for the whole file.
+ */
+export function stripMp3Metadata(buffer: Buffer): Buffer {
+  let start = 0
+  let end = buffer.length
+
+  // ID3v2 tags: "ID3", version, flags, then a 28-bit syncsafe size
+  while (end - start >= 10 && buffer.toString('latin1', start, start + 3) === 'ID3') {
+    const size =
+      ((buffer[start + 6] & 0x7f) << 21) |
+      ((buffer[start + 7] & 0x7f) << 14) |
+      ((buffer[start + 8] & 0x7f) << 7) |
+      (buffer[start + 9] & 0x7f)
+    const footer = buffer[start + 5] & 0x10 ? 10 : 0
+    start = Math.min(end, start + 10 + size + footer)
+  }
+
+  // ID3v1 tag: the last 128 bytes, starting with "TAG"
+  if (end - start >= 128 && buffer.toString('latin1', end - 128, end - 125) === 'TAG') {
+    end -= 128
+  }
+
+  start += getMp3InfoFrameLength(buffer.subarray(start, end))
+  return buffer.subarray(Math.min(start, end), end)
+}
+
+// Length of the first frame if it is a Xing/Info or VBRI header rather than audio, else 0
+function getMp3InfoFrameLength(frames: Buffer): number {
+  if (frames.length < 4 || frames[0] !== 0xff || (frames[1] & 0xe0) !== 0xe0) return 0
+
+  const version = (frames[1] >> 3) & 0x03
+  const layer = (frames[1] >> 1) & 0x03
+  const bitrateIndex = frames[2] >> 4
+  const sampleRateIndex = (frames[2] >> 2) & 0x03
+  const padding = (frames[2] >> 1) & 0x01
+  const mono = frames[3] >> 6 === 3
+
+  // Only Layer III with a known bitrate and sample rate
+  const sampleRate = MP3_SAMPLE_RATES[version]?.[sampleRateIndex]
+  if (layer !== 1 || !sampleRate || bitrateIndex === 0 || bitrateIndex === 15) return 0
+
+  const mpeg1 = version === 3
+  const bitrate = (mpeg1 ? MP3_BITRATES.mpeg1 : MP3_BITRATES.mpeg2)[bitrateIndex] * 1000
+  const frameLength = Math.floor(((mpeg1 ? 144 : 72) * bitrate) / sampleRate) + padding
+
+  // The Xing/Info tag follows the side information, VBRI always sits 32 bytes in
+  const sideInfoLength = mpeg1 ? (mono ? 17 : 32) : mono ? 9 : 17
+  const xingTag = frames.toString('latin1', 4 + sideInfoLength, 8 + sideInfoLength)
+  const vbriTag = frames.toString('latin1', 36, 40)
+
+  return xingTag === 'Xing' || xingTag === 'Info' || vbriTag === 'VBRI' ? frameLength : 0
+}
@@ -0,0 +1,15 @@
+import { existsSync } from 'fs'
+import { delimiter, isAbsolute, join } from 'path'
+
+/**
+ * Check whether an executable can be found, either at the given path or on PATH
+ */
+export function commandExists(command: string): boolean {
+  if (isAbsolute(command) || command.includes('/')) {
+    return existsSync(command)
+  }
+
+  const extensions = process.platform === 'win32' ? ['', '.exe', '.cmd', '.bat'] : ['']
+  const paths = (process.env.PATH || '').split(delimiter).filter(Boolean)
+  return paths.some((dir) => extensions.some((ext) => existsSync(join(dir, command + ext))))
+}
@@ -0,0 +1,12 @@
+/**
+ * Split off the complete lines of a chunk read from a log that is being appended to
+ *
+ * Returns the text up to and including the last newline, and its length in
+ * bytes for advancing the read offset. A half-written last line is left out so
+ * it can be read again, whole, once the writer has finished it.
+ */
+export function takeCompleteLines(chunk: Buffer): { text: string; byteLength: number } {
+  // A newline byte never occurs inside a multi-byte UTF-8 character
+  const byteLength = chunk.lastIndexOf(0x0a) + 1
+  return { text: chunk.toString('utf-8', 0, byteLength), byteLength }
+}
@@ -117,6 +117,24 @@ export async function extractImagesFromMessage(content: any[]): Promise<string[]
   return imagePaths
 }
 
+/**
+ * A base64 image content block, as Claude Code writes them
+ */
+export interface Base64ImageBlock {
+  type: 'image'
+  source: { type: 'base64'; media_type: string; data: string }
+}
+
+/**
+ * Convert a base64 data URL into an image block for extractImagesFromMessage
+ * @returns The image block, or null if the URL isn't a base64 data URL
+ */
+export function dataUrlToImageBlock(url: string): Base64ImageBlock | null {
+  const match = url.match(/^data:([^;,]+);base64,(.*)$/)
+  if (!match) return null
+  return { type: 'image', source: { type: 'base64', media_type: match[1], data: match[2] } }
+}
+
 /**
  * Extract images from <vision> tags in assistant messages
  * @param text Assistant message text that may contain <vision>filepath</vision> tags
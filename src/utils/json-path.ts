@@ -0,0 +1,67 @@
+export type JsonPathSegment = string | number | '*'
+
+/**
+ * Split a JSONPath-style field path into its segments
+ *
+ * Supports dotted keys with array indexes and wildcards, optionally starting
+ * with `$`: `message.content[0].text`, `$.payload.parts[*].text`. Returns null
+ * if the path can't be parsed.
+ */
+export function parseJsonPath(path: string): JsonPathSegment[] | null {
+  const trimmed = path.trim().replace(/^\$\.?/, '')
+  if (!trimmed) return null
+
+  const segments: JsonPathSegment[] = []
+  const pattern = /([^.[\]]+)|\[(\d+|\*)\]|(\.)/y
+  let afterDot = false
+
+  while (pattern.lastIndex < trimmed.length) {
+    const match = pattern.exec(trimmed)
+    if (!match) return null
+
+    const [, key, index, dot] = match
+    if (dot !== undefined) {
+      // A dot separates two segments
+      if (segments.length === 0 || afterDot) return null
+      afterDot = true
+    } else if (key !== undefined) {
+      // Keys after the first one need a dot before them
+      if (segments.length > 0 && !afterDot) return null
+      segments.push(key)
+      afterDot = false
+    } else {
+      if (afterDot) return null
+      segments.push(index === '*' ? '*' : Number(index))
+    }
+  }
+
+  return afterDot ? null : segments
+}
+
+/**
+ * Look up a field path in parsed JSON. A wildcard returns a (flattened) array
+ * of the values found in every element; missing fields are undefined.
+ */
+export function getJsonPath(data: unknown, path: string | JsonPathSegment[]): unknown {
+  const segments = typeof path === 'string' ? parseJsonPath(path) : path
+  if (!segments) return undefined
+  return resolve(data, segments)
+}
+
+function resolve(value: unknown, segments: JsonPathSegment[]): unknown {
+  if (segments.length === 0) return value
+  if (value === null || typeof value !== 'object') return undefined
+
+  const [segment, ...rest] = segments
+  if (segment === '*') {
+    const items = Array.isArray(value) ? value : Object.values(value)
+    const nested = rest.includes('*')
+    return items.flatMap((item) => {
+      const found = resolve(item, rest)
+      if (found === undefined) return []
+      return nested && Array.isArray(found) ? found : [found]
+    })
+  }
+
+  return resolve((value as Record<string | number, unknown>)[segment], rest)
+}
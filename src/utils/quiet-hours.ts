@@ -0,0 +1,49 @@
+import { QuietHoursRule, Weekday } from '../types/config.js'
+
+const WEEKDAYS: Weekday[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat']
+
+/**
+ * Minutes since midnight for an "HH:MM" time, or null if it isn't one
+ */
+export function parseTime(value: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value)
+  if (!match) return null
+
+  const hours = Number(match[1])
+  const minutes = Number(match[2])
+  if (hours > 23 || minutes > 59) return null
+
+  return hours * 60 + minutes
+}
+
+export function isValidQuietHoursRule(rule: QuietHoursRule): boolean {
+  return (
+    parseTime(rule.start) !== null &&
+    parseTime(rule.end) !== null &&
+    (rule.days ?? []).every((day) => WEEKDAYS.includes(day))
+  )
+}
+
+/**
+ * Rules in effect at the given time, optionally only those covering a profile.
+ * A rule whose end is before its start runs past midnight and belongs to the
+ * day it starts on. A rule whose start and end are equal lasts all day.
+ */
+export function getActiveQuietHours(rules: QuietHoursRule[], now: Date = new Date(), profileId?: string) {
+  const minutes = now.getHours() * 60 + now.getMinutes()
+  const today = WEEKDAYS[now.getDay()]
+  const yesterday = WEEKDAYS[(now.getDay() + 6) % 7]
+
+  return rules.filter((rule) => {
+    if (!isValidQuietHoursRule(rule)) return false
+    if (profileId && rule.profiles && !rule.profiles.includes(profileId)) return false
+
+    const start = parseTime(rule.start)!
+    const end = parseTime(rule.end)!
+    const onDay = (day: Weekday) => !rule.days || rule.days.includes(day)
+
+    if (start === end) return onDay(today)
+    if (start < end) return onDay(today) && minutes >= start && minutes < end
+    return (onDay(today) && minutes >= start) || (onDay(yesterday) && minutes < end)
+  })
+}
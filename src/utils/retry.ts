@@ -0,0 +1,75 @@
+/**
+ * Retry helpers for calls to remote TTS services
+ */
+
+export interface RetryOptions {
+  maxRetries?: number // Retries after the first failure, 0 to disable (default: 3)
+  initialDelay?: number // Milliseconds before the first retry, doubled each time (default: 1000)
+  maxDelay?: number // Upper bound for a single delay (default: 30000)
+  onRetry?: (attempt: number, error: Error, delay: number) => void
+}
+
+// Network errors worth retrying: the service may be restarting or briefly unreachable
+const TRANSIENT_ERROR_CODES = new Set(['ECONNREFUSED', 'ECONNRESET', 'ETIMEDOUT', 'EAI_AGAIN'])
+
+/**
+ * What TTS services attach to their errors as `error.details`
+ */
+export interface TTSErrorDetails {
+  status?: number // HTTP status of the failed request
+  code?: string // Network error code, e.g. ECONNREFUSED
+  retryAfterMs?: number // From the Retry-After header
+}
+
+interface ErrorWithDetails {
+  code?: string
+  details?: TTSErrorDetails
+}
+
+function asErrorWithDetails(error: unknown): ErrorWithDetails {
+  return typeof error === 'object' && error !== null ? error : {}
+}
+
+/**
+ * Rate limits, server errors and connection failures are transient.
+ * Other client errors (bad API key, invalid voice) will fail again.
+ * TTS services attach the HTTP status and error code to `error.details`.
+ */
+export function isTransientError(error: unknown): boolean {
+  const { details, code } = asErrorWithDetails(error)
+  if (typeof details?.status === 'number') {
+    return details.status === 429 || details.status >= 500
+  }
+
+  return TRANSIENT_ERROR_CODES.has(details?.code ?? code ?? '')
+}
+
+export function getRetryDelay(attempt: number, options: RetryOptions = {}, error?: unknown): number {
+  const maxDelay = options.maxDelay ?? 30000
+
+  // Honor the service's Retry-After header when it sent one
+  const retryAfter = asErrorWithDetails(error).details?.retryAfterMs
+  if (typeof retryAfter === 'number' && retryAfter > 0) {
+    return Math.min(retryAfter, maxDelay)
+  }
+
+  return Math.min((options.initialDelay ?? 1000) * 2 ** (attempt - 1), maxDelay)
+}
+
+export async function withRetry<T>(operation: () => Promise<T>, options: RetryOptions = {}): Promise<T> {
+  const maxRetries = options.maxRetries ?? 3
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation()
+    } catch (error) {
+      if (attempt > maxRetries || !isTransientError(error)) {
+        throw error
+      }
+
+      const delay = getRetryDelay(attempt, options, error)
+      options.onRetry?.(attempt, error instanceof Error ? error : new Error(String(error)), delay)
+      await new Promise((resolve) => setTimeout(resolve, delay))
+    }
+  }
+}
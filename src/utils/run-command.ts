@@ -0,0 +1,60 @@
+import { spawn } from 'child_process'
+
+export interface RunCommandOptions {
+  label: string // Names the command in errors, e.g. "TTS command"
+  timeout: number // Milliseconds before the command is killed
+  input?: string | null // Written to stdin, which is closed either way
+}
+
+/**
+ * Run an executable without a shell and collect what it writes to stdout
+ *
+ * Rejects if the command can't be started, runs past the timeout or exits
+ * with a non-zero code, in which case the error includes its stderr.
+ */
+export function runCommand(command: string, args: string[], options: RunCommandOptions): Promise<Buffer> {
+  const { label, timeout, input } = options
+
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, {
+      stdio: ['pipe', 'pipe', 'pipe'],
+    })
+
+    const stdout: Buffer[] = []
+    let stderr = ''
+    let timedOut = false
+
+    const timer = setTimeout(() => {
+      timedOut = true
+      child.kill()
+    }, timeout)
+
+    child.stdout.on('data', (chunk: Buffer) => {
+      stdout.push(chunk)
+    })
+
+    child.stderr.on('data', (chunk) => {
+      stderr += chunk
+    })
+
+    child.on('error', (err) => {
+      clearTimeout(timer)
+      reject(err)
+    })
+
+    child.on('close', (code) => {
+      clearTimeout(timer)
+      if (timedOut) {
+        reject(new Error(`${label} timed out after ${timeout}ms`))
+      } else if (code === 0) {
+        resolve(Buffer.concat(stdout))
+      } else {
+        reject(new Error(`${label} failed with exit code ${code}\n${stderr}`))
+      }
+    })
+
+    // Ignore EPIPE if the command exits without reading its input
+    child.stdin.on('error', () => {})
+    child.stdin.end(input ?? undefined)
+  })
+}
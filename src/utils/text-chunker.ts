@@ -0,0 +1,32 @@
+/**
+ * Split text into sentence-aligned chunks for incremental synthesis
+ *
+ * The first chunk is always a single sentence so playback can start as soon
+ * as possible. Later sentences are grouped until a chunk would exceed
+ * maxChars. A sentence longer than maxChars becomes a chunk of its own.
+ */
+export function splitIntoChunks(text: string, maxChars: number = 250): string[] {
+  const sentences = text
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map((sentence) => sentence.trim())
+    .filter(Boolean)
+
+  if (sentences.length === 0) return []
+
+  const chunks: string[] = [sentences[0]]
+  let current = ''
+
+  for (const sentence of sentences.slice(1)) {
+    if (current && current.length + 1 + sentence.length > maxChars) {
+      chunks.push(current)
+      current = ''
+    }
+    current = current ? `${current} ${sentence}` : sentence
+  }
+
+  if (current) {
+    chunks.push(current)
+  }
+
+  return chunks
+}
@@ -0,0 +1,16 @@
+import { ProfileConfig, TTSServiceConfig } from '../types/config.js'
+
+/**
+ * A profile's ttsService may be a single service or an ordered fallback chain
+ */
+export function getTTSServiceConfigs(profile: ProfileConfig): TTSServiceConfig[] {
+  return Array.isArray(profile.ttsService) ? profile.ttsService : [profile.ttsService]
+}
+
+/**
+ * The first service in the chain, which supplies the profile's avatar and voice name
+ */
+export function getPrimaryTTSServiceConfig(profile?: ProfileConfig): TTSServiceConfig | undefined {
+  if (!profile?.ttsService) return undefined
+  return getTTSServiceConfigs(profile)[0]
+}
@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { readFileSync } from 'fs'
+import { join } from 'path'
+import { AiderParser } from '../src/parsers/aider-parser'
+
+const historyPath = '/Users/test/projects/app/.aider.chat.history.md'
+const fixture = readFileSync(join(__dirname, 'fixtures/aider/.aider.chat.history.md'), 'utf-8')
+
+describe('AiderParser', () => {
+  let parser: AiderParser
+
+  beforeEach(() => {
+    parser = new AiderParser()
+  })
+
+  it('should use append log mode', () => {
+    expect(parser.getLogMode()).toBe('append')
+  })
+
+  it('should split the transcript into user and assistant turns', () => {
+    // Aider ends each line of its own output with two spaces
+    const testData = `
+# aider chat started at 2025-10-03 14:20:11
+
+> /usr/local/bin/aider --model sonnet${'  '}
+> Aider v0.86.1${'  '}
+> Git repo: .git with 42 files${'  '}
+
+#### Add a --verbose flag
+#### and document it
+
+I'll add the flag to the argument parser and mention it in the README.
+
+> Applied edit to cli.py${'  '}
+> Commit 1a2b3c4 feat: Add --verbose flag${'  '}
+
+#### Thanks
+
+You're welcome!
+`
+
+    const results = parser.parse(testData, historyPath)
+
+    expect(results.map((m) => [m.role, m.content])).toEqual([
+      ['user', 'Add a --verbose flag\nand document it'],
+      ['assistant', "I'll add the flag to the argument parser and mention it in the README."],
+      ['user', 'Thanks'],
+      ['assistant', "You're welcome!"],
+    ])
+  })
+
+  it('should keep quotes and edit blocks in the reply and pick up the model', () => {
+    const results = parser.parse(fixture, historyPath)
+
+    expect(results.map((m) => m.role)).toEqual(['user', 'assistant', 'user', 'assistant'])
+    expect(results[1].content).toMatch(/^The CI log says:\n> Error: connect ECONNREFUSED/)
+    expect(results[1].content).toContain("\n\n> The mock server isn't started before the test runs.\n\n")
+    expect(results[1].content).toMatch(/>>>>>>> REPLACE\n```$/)
+    expect(results[1].model).toBe('anthropic/claude-sonnet-4-20250514')
+  })
+
+  it('should leave the timestamp to whoever reads the transcript', () => {
+    const results = parser.parse(fixture, historyPath)
+
+    expect(results.every((m) => m.timestamp === undefined)).toBe(true)
+  })
+
+  it('should use the transcript directory as cwd', () => {
+    const results = parser.parse('#### Run the tests\n', historyPath)
+
+    expect(results).toHaveLength(1)
+    expect(results[0].cwd).toBe('/Users/test/projects/app')
+  })
+
+  it('should keep blank lines inside a multi-paragraph reply', () => {
+    const results = parser.parse('#### Explain\n\nFirst paragraph.\n\nSecond paragraph.\n\n', historyPath)
+
+    expect(results[1].content).toBe('First paragraph.\n\nSecond paragraph.')
+  })
+})
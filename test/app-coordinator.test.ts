@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { AppCoordinator } from '../src/services/app-coordinator'
+import { MessageCoalescer } from '../src/services/message-coalescer'
+import { QueuedMessage, TTSQueueProcessor } from '../src/services/tts-queue'
+import { AgentTTSConfig, CoalesceConfig, ProfileConfig } from '../src/types/config'
+
+vi.mock('../src/services/database', () => ({
+  DatabaseManager: class {
+    updateTTSQueueEntry = vi.fn()
+  },
+}))
+
+vi.mock('../src/database/settings', () => ({
+  SettingsRepository: class {},
+}))
+
+// The parts of the coordinator the coalescing handler works with
+interface CoordinatorInternals {
+  config: AgentTTSConfig | null
+  coalescer: MessageCoalescer
+  ttsQueue: TTSQueueProcessor
+  database: { updateTTSQueueEntry: ReturnType<typeof vi.fn> }
+}
+
+function message(id: number, coalesce: CoalesceConfig): QueuedMessage {
+  return {
+    id,
+    timestamp: new Date(),
+    filename: 'session.jsonl',
+    profile: 'claude',
+    originalText: `Message ${id}`,
+    filteredText: `Message ${id}.`,
+    state: 'queued',
+    cwd: '/project',
+    profileConfig: { id: 'claude', coalesce } as unknown as ProfileConfig,
+  }
+}
+
+describe('AppCoordinator coalescing', () => {
+  let coordinator: CoordinatorInternals
+  let queued: QueuedMessage[]
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    coordinator = new AppCoordinator() as unknown as CoordinatorInternals
+    coordinator.config = { profiles: [] } as unknown as AgentTTSConfig
+    queued = []
+    vi.spyOn(coordinator.ttsQueue, 'addToQueue').mockImplementation((m: QueuedMessage) => {
+      queued.push(m)
+    })
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should expire the messages replaced by one held for quiet hours', () => {
+    coordinator.config!.quietHours = [{ name: 'Focus', start: '00:00', end: '00:00' }]
+    const coalesce: CoalesceConfig = { windowSeconds: 1, mode: 'merge' }
+
+    coordinator.coalescer.add(message(1, coalesce))
+    coordinator.coalescer.add(message(2, coalesce))
+    vi.advanceTimersByTime(1000)
+
+    expect(queued).toEqual([])
+    const states = coordinator.database.updateTTSQueueEntry.mock.calls.map(([id, entry]) => [id, entry.state])
+    expect(states).toEqual([
+      [2, 'expired'],
+      [1, 'expired'],
+    ])
+  })
+
+  it('should expire the messages replaced in last mode right away', () => {
+    const coalesce: CoalesceConfig = { windowSeconds: 1, mode: 'last' }
+
+    coordinator.coalescer.add(message(1, coalesce))
+    coordinator.coalescer.add(message(2, coalesce))
+    vi.advanceTimersByTime(1000)
+
+    expect(queued.map((m) => m.id)).toEqual([2])
+    expect(coordinator.database.updateTTSQueueEntry).toHaveBeenCalledWith(1, {
+      state: 'expired',
+      apiResponseMessage: 'Skipped for entry 2',
+    })
+  })
+
+  it('should give merged messages the outcome of the message they were spoken with', () => {
+    const coalesce: CoalesceConfig = { windowSeconds: 1, mode: 'merge' }
+
+    ;[1, 2, 3, 4].forEach((id) => coordinator.coalescer.add(message(id, coalesce)))
+    vi.advanceTimersByTime(1000)
+    expect(queued.map((m) => m.id)).toEqual([4])
+    expect(coordinator.database.updateTTSQueueEntry.mock.calls).toEqual([
+      [4, { filteredText: 'Message 1.\n\nMessage 2.\n\nMessage 3.\n\nMessage 4.' }],
+    ])
+    coordinator.database.updateTTSQueueEntry.mockClear()
+
+    coordinator.ttsQueue.emit('played', queued[0])
+
+    const updates = coordinator.database.updateTTSQueueEntry.mock.calls
+    expect(updates).toEqual(
+      [1, 2, 3].map((id) => [id, { state: 'played', apiResponseMessage: 'Spoken together with entry 4' }]),
+    )
+  })
+
+  it('should fail merged messages along with the message they were merged into', () => {
+    const coalesce: CoalesceConfig = { windowSeconds: 1, mode: 'merge' }
+
+    coordinator.coalescer.add(message(1, coalesce))
+    coordinator.coalescer.add(message(2, coalesce))
+    vi.advanceTimersByTime(1000)
+    coordinator.ttsQueue.emit('error', { message: queued[0], error: new Error('TTS service not available') })
+    // Only the first outcome counts
+    coordinator.ttsQueue.emit('played', queued[0])
+
+    expect(coordinator.database.updateTTSQueueEntry.mock.calls).toEqual([
+      [2, { filteredText: 'Message 1.\n\nMessage 2.' }],
+      [1, { state: 'error', apiResponseMessage: 'Not spoken, entry 2 failed' }],
+    ])
+  })
+})
@@ -0,0 +1,53 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import { mkdtemp, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import type { MockTTSService as MockTTSServiceType } from '../src/services/tts/mock'
+
+describe('content-addressed audio cache', () => {
+  let cacheHome: string
+  let previousCacheHome: string | undefined
+  let MockTTSService: typeof MockTTSServiceType
+
+  beforeAll(async () => {
+    // Cache paths are resolved on import, so point them at a temp dir first
+    cacheHome = await mkdtemp(join(tmpdir(), 'agent-tts-cache-'))
+    previousCacheHome = process.env.XDG_CACHE_HOME
+    process.env.XDG_CACHE_HOME = cacheHome
+    MockTTSService = (await import('../src/services/tts/mock')).MockTTSService
+  })
+
+  afterAll(async () => {
+    if (previousCacheHome === undefined) {
+      delete process.env.XDG_CACHE_HOME
+    } else {
+      process.env.XDG_CACHE_HOME = previousCacheHome
+    }
+    await rm(cacheHome, { recursive: true, force: true })
+  })
+
+  it('should key audio by text and voice settings', () => {
+    const service = new MockTTSService({ type: 'mock', voiceId: 'a' })
+    const otherVoice = new MockTTSService({ type: 'mock', voiceId: 'b' })
+    const otherOptions = new MockTTSService({ type: 'mock', voiceId: 'a', options: { frequency: 220 } })
+    const sameVoice = new MockTTSService({ type: 'mock', voiceId: 'a', voiceName: 'Renamed' })
+
+    expect(service.getCacheKey('Done!')).toBe(sameVoice.getCacheKey('Done!'))
+    expect(service.getCacheKey('Done!')).not.toBe(service.getCacheKey('Done.'))
+    expect(service.getCacheKey('Done!')).not.toBe(otherVoice.getCacheKey('Done!'))
+    expect(service.getCacheKey('Done!')).not.toBe(otherOptions.getCacheKey('Done!'))
+  })
+
+  it('should find previously synthesized audio', async () => {
+    const service = new MockTTSService({ type: 'mock' })
+
+    expect(service.getCachedAudioPath('All tests pass.')).toBeNull()
+
+    const audioPath = await service.tts('All tests pass.')
+    const key = service.getCacheKey('All tests pass.')
+
+    expect(audioPath).toBe(join(cacheHome, 'agent-tts', 'audio', key.slice(0, 2), `${key}.wav`))
+    expect(service.getCachedAudioPath('All tests pass.')).toBe(audioPath)
+    expect(service.getCachedAudioPath('Something else.')).toBeNull()
+  })
+})
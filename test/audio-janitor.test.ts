@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { existsSync } from 'fs'
+import { mkdir, mkdtemp, rm, utimes, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { AudioJanitor } from '../src/services/audio-janitor'
+import { DatabaseManager } from '../src/services/database'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+describe('AudioJanitor', () => {
+  let audioDir: string
+  let favorites: string[]
+  let clearedDays: number[]
+  let database: DatabaseManager
+
+  async function addFile(relativePath: string, size: number, ageDays: number) {
+    const path = join(audioDir, relativePath)
+    await mkdir(join(path, '..'), { recursive: true })
+    await writeFile(path, Buffer.alloc(size))
+    const time = new Date(Date.now() - ageDays * DAY_MS)
+    await utimes(path, time, time)
+  }
+
+  beforeEach(async () => {
+    audioDir = await mkdtemp(join(tmpdir(), 'agent-tts-janitor-'))
+    favorites = []
+    clearedDays = []
+    database = {
+      getFavoriteAudioPaths: () => favorites,
+      clearOldEntries: (days: number) => {
+        clearedDays.push(days)
+        return 2
+      },
+    } as unknown as DatabaseManager
+  })
+
+  afterEach(async () => {
+    await rm(audioDir, { recursive: true, force: true })
+  })
+
+  it('should delete audio older than maxAgeDays but keep favorites', async () => {
+    await addFile('aa/old.mp3', 100, 40)
+    await addFile('bb/favorite.mp3', 100, 40)
+    await addFile('cc/new.mp3', 100, 1)
+    favorites = ['bb/favorite.mp3']
+
+    const janitor = new AudioJanitor(database, audioDir)
+    janitor.setPolicy({ maxAgeDays: 30 })
+    const report = await janitor.run()
+
+    expect(existsSync(join(audioDir, 'aa/old.mp3'))).toBe(false)
+    expect(existsSync(join(audioDir, 'aa'))).toBe(false)
+    expect(existsSync(join(audioDir, 'bb/favorite.mp3'))).toBe(true)
+    expect(existsSync(join(audioDir, 'cc/new.mp3'))).toBe(true)
+    expect(report).toMatchObject({ filesDeleted: 1, bytesReclaimed: 100, cacheFiles: 2, cacheBytes: 200 })
+  })
+
+  it('should delete the oldest audio until the cache fits in maxBytes', async () => {
+    await addFile('aa/oldest.mp3', 100, 3)
+    await addFile('aa/older.mp3', 100, 2)
+    await addFile('aa/newest.mp3', 100, 1)
+
+    const janitor = new AudioJanitor(database, audioDir)
+    janitor.setPolicy({ maxBytes: 150 })
+    const report = await janitor.run()
+
+    expect(existsSync(join(audioDir, 'aa/oldest.mp3'))).toBe(false)
+    expect(existsSync(join(audioDir, 'aa/older.mp3'))).toBe(false)
+    expect(existsSync(join(audioDir, 'aa/newest.mp3'))).toBe(true)
+    expect(report).toMatchObject({ filesDeleted: 2, bytesReclaimed: 200, cacheBytes: 100 })
+  })
+
+  it('should keep everything without a policy', async () => {
+    await addFile('aa/old.mp3', 100, 400)
+
+    const report = await new AudioJanitor(database, audioDir).run()
+
+    expect(existsSync(join(audioDir, 'aa/old.mp3'))).toBe(true)
+    expect(report).toMatchObject({ filesDeleted: 0, entriesDeleted: 0, cacheFiles: 1 })
+    expect(clearedDays).toEqual([])
+  })
+
+  it('should prune old log entries when enabled', async () => {
+    const janitor = new AudioJanitor(database, audioDir)
+    janitor.setPolicy({ maxAgeDays: 30, pruneLogs: true })
+    const report = await janitor.run()
+
+    expect(clearedDays).toEqual([30])
+    expect(report?.entriesDeleted).toBe(2)
+  })
+})
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest'
+import { AudioPlayer, buildPlayCommand, resolveAudioBackend } from '../src/services/audio-player'
+
+describe('resolveAudioBackend', () => {
+  it('picks the first installed player on Linux', () => {
+    const installed = new Set(['paplay', 'aplay'])
+    expect(resolveAudioBackend({}, 'linux', (command) => installed.has(command))).toBe('paplay')
+  })
+
+  it('keeps ffplay as the Linux default', () => {
+    expect(resolveAudioBackend({ backend: 'auto' }, 'linux', () => true)).toBe('ffplay')
+  })
+
+  it('prefers players that decode every format', () => {
+    const installed = new Set(['mpv', 'pw-play', 'aplay'])
+    expect(resolveAudioBackend({}, 'linux', (command) => installed.has(command))).toBe('mpv')
+  })
+
+  it('explains what to install when no player is found', () => {
+    expect(() => resolveAudioBackend({}, 'linux', () => false)).toThrow(
+      /No audio player found. Install one of: ffplay, mpv/,
+    )
+  })
+
+  it('rejects a configured backend that is not installed', () => {
+    expect(() => resolveAudioBackend({ backend: 'pw-play' }, 'linux', () => false)).toThrow(
+      "Audio backend 'pw-play' is not available: 'pw-play' was not found on PATH",
+    )
+  })
+
+  it('requires a command for the command backend', () => {
+    expect(() => resolveAudioBackend({ backend: 'command' }, 'linux', () => true)).toThrow(
+      /requires audioOutput.command/,
+    )
+  })
+})
+
+describe('buildPlayCommand', () => {
+  it('passes device and volume to the player', () => {
+    expect(buildPlayCommand('paplay', '/a.wav', { device: 'headphones', volume: 0.5 })).toEqual({
+      command: 'paplay',
+      args: ['--device=headphones', '--volume=32768', '/a.wav'],
+    })
+    expect(buildPlayCommand('mpv', '/a.mp3', { device: 'pulse/sink', volume: 0.8 }).args).toEqual([
+      '--no-video',
+      '--really-quiet',
+      '--audio-device=pulse/sink',
+      '--volume=80',
+      '/a.mp3',
+    ])
+  })
+
+  it('leaves out device and volume when not configured', () => {
+    expect(buildPlayCommand('pw-play', '/a.wav').args).toEqual(['/a.wav'])
+  })
+
+  it('fills placeholders for a custom command and drops unset ones', () => {
+    const output = { backend: 'command' as const, command: 'play', args: ['-q', '--dev={device}', '{file}'] }
+    expect(buildPlayCommand('command', '/a.wav', output)).toEqual({ command: 'play', args: ['-q', '/a.wav'] })
+    expect(buildPlayCommand('command', '/a.wav', { ...output, device: 'hw:1' }).args).toEqual([
+      '-q',
+      '--dev=hw:1',
+      '/a.wav',
+    ])
+  })
+})
+
+describe.skipIf(process.platform === 'win32')('AudioPlayer pause', () => {
+  it('should suspend the player and continue where it left off', async () => {
+    const player = new AudioPlayer()
+    // Use node itself as a player that takes 300ms
+    player.configure({ backend: 'command', command: process.execPath, args: ['-e', 'setTimeout(() => {}, 300)'] })
+
+    const playback = player.play('/a.wav')
+    await new Promise((resolve) => setTimeout(resolve, 100))
+
+    expect(player.pause()).toBe(true)
+    const position = player.getPosition()
+    await new Promise((resolve) => setTimeout(resolve, 400))
+
+    // Still running and not advancing while paused
+    expect(player.isPlaying()).toBe(true)
+    expect(player.getPosition()).toBe(position)
+
+    player.resume()
+    await expect(playback).resolves.toBeUndefined()
+  })
+
+  it('should stop a paused player', async () => {
+    const player = new AudioPlayer()
+    player.configure({ backend: 'command', command: process.execPath, args: ['-e', 'setTimeout(() => {}, 5000)'] })
+
+    const playback = player.play('/a.wav')
+    await new Promise((resolve) => setTimeout(resolve, 100))
+    player.pause()
+    player.stop()
+
+    await expect(playback).resolves.toBeUndefined()
+  })
+})
@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildWav,
+  canConcatenateAudio,
+  concatenateAudio,
+  concatWav,
+  parseWav,
+  stripMp3Metadata,
+} from '../src/utils/audio'
+
+// PCM, mono, 16-bit at 16kHz
+function wavFormat(sampleRate = 16000): Buffer {
+  const format = Buffer.alloc(16)
+  format.writeUInt16LE(1, 0)
+  format.writeUInt16LE(1, 2)
+  format.writeUInt32LE(sampleRate, 4)
+  format.writeUInt32LE(sampleRate * 2, 8)
+  format.writeUInt16LE(2, 12)
+  format.writeUInt16LE(16, 14)
+  return format
+}
+
+// A 128kbps 44.1kHz stereo MPEG-1 Layer III frame is 417 bytes
+function mp3Frame(fill: number, tag?: string): Buffer {
+  const frame = Buffer.alloc(417, fill)
+  Buffer.from([0xff, 0xfb, 0x90, 0x00]).copy(frame)
+  if (tag) {
+    frame.write(tag, 36, 'latin1')
+  }
+  return frame
+}
+
+function id3v2(size: number): Buffer {
+  const tag = Buffer.alloc(10 + size)
+  tag.write('ID3', 0, 'latin1')
+  tag[3] = 4
+  // Syncsafe: 7 bits per byte
+  tag[8] = (size >> 7) & 0x7f
+  tag[9] = size & 0x7f
+  return tag
+}
+
+describe('canConcatenateAudio', () => {
+  it('should allow formats that can be joined', () => {
+    expect(['mp3', 'aac', 'pcm', 'wav'].every(canConcatenateAudio)).toBe(true)
+    expect(canConcatenateAudio('opus')).toBe(false)
+    expect(canConcatenateAudio('flac')).toBe(false)
+  })
+
+  it('should refuse to concatenate other formats', () => {
+    expect(() => concatenateAudio([Buffer.from('a'), Buffer.from('b')], 'opus')).toThrow('Cannot concatenate opus')
+  })
+})
+
+describe('WAV helpers', () => {
+  it('should write RIFF and data sizes that match the contents', () => {
+    const wav = buildWav(wavFormat(), Buffer.alloc(100, 1))
+
+    expect(wav.length).toBe(44 + 100)
+    expect(wav.toString('ascii', 0, 4)).toBe('RIFF')
+    expect(wav.readUInt32LE(4)).toBe(wav.length - 8)
+    expect(wav.toString('ascii', 36, 40)).toBe('data')
+    expect(wav.readUInt32LE(40)).toBe(100)
+  })
+
+  it('should parse the format and data chunks, skipping others', () => {
+    const wav = buildWav(wavFormat(), Buffer.alloc(10, 7))
+    // An odd-sized LIST chunk, padded to an even length, before the data chunk
+    const list = Buffer.concat([Buffer.from('LIST'), Buffer.from([3, 0, 0, 0]), Buffer.from('abc\0')])
+    const withList = Buffer.concat([wav.subarray(0, 36), list, wav.subarray(36)])
+
+    const parts = parseWav(withList)
+
+    expect(parts.format.equals(wavFormat())).toBe(true)
+    expect(parts.data.equals(Buffer.alloc(10, 7))).toBe(true)
+  })
+
+  it('should read to the end when a streaming encoder left the data size unset', () => {
+    const wav = buildWav(wavFormat(), Buffer.alloc(10, 7))
+    wav.writeUInt32LE(0xffffffff, 40)
+
+    expect(parseWav(wav).data.length).toBe(10)
+  })
+
+  it('should reject data that is not a WAV file', () => {
+    expect(() => parseWav(Buffer.from('not a wav file at all'))).toThrow('Invalid WAV data')
+  })
+
+  it('should join the samples under one header with updated sizes', () => {
+    const first = buildWav(wavFormat(), Buffer.alloc(100, 1))
+    const second = buildWav(wavFormat(), Buffer.alloc(60, 2))
+
+    const joined = concatenateAudio([first, second], 'wav')
+
+    expect(joined.length).toBe(44 + 160)
+    expect(joined.readUInt32LE(4)).toBe(36 + 160)
+    expect(joined.readUInt32LE(40)).toBe(160)
+    expect(parseWav(joined).data.equals(Buffer.concat([Buffer.alloc(100, 1), Buffer.alloc(60, 2)]))).toBe(true)
+  })
+
+  it('should refuse to join WAV audio in different formats', () => {
+    const first = buildWav(wavFormat(16000), Buffer.alloc(10))
+    const second = buildWav(wavFormat(24000), Buffer.alloc(10))
+
+    expect(() => concatWav([first, second])).toThrow('different formats')
+  })
+})
+
+describe('MP3 helpers', () => {
+  it('should strip ID3 tags and the Xing/LAME header frame', () => {
+    const audio = Buffer.concat([mp3Frame(1), mp3Frame(2)])
+    const tagged = Buffer.concat([id3v2(300), mp3Frame(0, 'Info'), audio, Buffer.from('TAG'), Buffer.alloc(125)])
+
+    expect(stripMp3Metadata(tagged).equals(audio)).toBe(true)
+  })
+
+  it('should strip a VBRI header frame', () => {
+    const audio = mp3Frame(1)
+
+    expect(stripMp3Metadata(Buffer.concat([mp3Frame(0, 'VBRI'), audio])).equals(audio)).toBe(true)
+  })
+
+  it('should leave untagged audio as it is', () => {
+    const audio = Buffer.concat([mp3Frame(1), mp3Frame(2)])
+
+    expect(stripMp3Metadata(audio).equals(audio)).toBe(true)
+  })
+
+  it('should join chunks into one stream of audio frames', () => {
+    const chunk = (fill: number) => Buffer.concat([id3v2(20), mp3Frame(0, 'Xing'), mp3Frame(fill)])
+
+    const joined = concatenateAudio([chunk(1), chunk(2)], 'mp3')
+
+    expect(joined.equals(Buffer.concat([mp3Frame(1), mp3Frame(2)]))).toBe(true)
+  })
+})
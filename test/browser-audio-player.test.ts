@@ -0,0 +1,112 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { BrowserAudioPlayer, BrowserPlayRequest } from '../src/services/browser-audio-player'
+
+describe('BrowserAudioPlayer', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should ask browsers to play and resolve once one reports the end', async () => {
+    const player = new BrowserAudioPlayer()
+    const requests: BrowserPlayRequest[] = []
+    player.on('play', (request) => requests.push(request))
+
+    const playback = player.play('ab/abc.mp3')
+    expect(requests).toEqual([{ requestId: 1, audioPath: 'ab/abc.mp3' }])
+    expect(player.isPlaying()).toBe(true)
+
+    player.acknowledge(1, 'started')
+    player.acknowledge(1, 'ended')
+
+    await expect(playback).resolves.toBeUndefined()
+    expect(player.isPlaying()).toBe(false)
+  })
+
+  it('should reject when the browser reports an error', async () => {
+    const player = new BrowserAudioPlayer()
+    const playback = player.play('ab/abc.mp3')
+
+    player.acknowledge(1, 'ended', 'play() failed because the user did not interact')
+
+    await expect(playback).rejects.toThrow('Browser playback failed: play() failed')
+  })
+
+  it('should keep playing while another browser can still play it', async () => {
+    const player = new BrowserAudioPlayer()
+    player.setConnectedClients(2)
+
+    const playing = player.play('ab/abc.mp3')
+    player.acknowledge(1, 'ended', 'play() failed because the user did not interact')
+    player.acknowledge(1, 'started')
+    expect(player.isPlaying()).toBe(true)
+    player.acknowledge(1, 'ended')
+    await expect(playing).resolves.toBeUndefined()
+
+    const failing = player.play('ab/abc.mp3')
+    player.acknowledge(2, 'ended', 'autoplay blocked')
+    expect(player.isPlaying()).toBe(true)
+    player.acknowledge(2, 'ended', 'autoplay blocked')
+    await expect(failing).rejects.toThrow('Browser playback failed: autoplay blocked')
+  })
+
+  it('should reject when no browser starts playing in time', async () => {
+    vi.useFakeTimers()
+    const player = new BrowserAudioPlayer(1000)
+    const playback = player.play('ab/abc.mp3')
+    const assertion = expect(playback).rejects.toThrow(/No browser started playing/)
+
+    await vi.advanceTimersByTimeAsync(1000)
+    await assertion
+  })
+
+  it('should wait past the start timeout once playback has started', async () => {
+    vi.useFakeTimers()
+    const player = new BrowserAudioPlayer(1000, 60000)
+    const playback = player.play('ab/abc.mp3')
+
+    player.acknowledge(1, 'started')
+    await vi.advanceTimersByTimeAsync(5000)
+    expect(player.isPlaying()).toBe(true)
+
+    player.acknowledge(1, 'ended')
+    await expect(playback).resolves.toBeUndefined()
+  })
+
+  it('should ignore reports for other requests and resolve on stop', async () => {
+    const player = new BrowserAudioPlayer()
+    const stopped: number[] = []
+    player.on('stop', (requestId) => stopped.push(requestId))
+
+    const playback = player.play('ab/abc.mp3')
+    player.acknowledge(99, 'ended', 'stale')
+    expect(player.isPlaying()).toBe(true)
+
+    player.stop()
+
+    await expect(playback).resolves.toBeUndefined()
+    expect(stopped).toEqual([1])
+  })
+
+  it('should not time out while paused', async () => {
+    vi.useFakeTimers()
+    const player = new BrowserAudioPlayer(1000, 2000)
+    const events: string[] = []
+    player.on('pause', (requestId) => events.push(`pause ${requestId}`))
+    player.on('resume', (requestId) => events.push(`resume ${requestId}`))
+
+    const playback = player.play('ab/abc.mp3')
+    player.acknowledge(1, 'started')
+    await vi.advanceTimersByTimeAsync(500)
+
+    expect(player.pause()).toBe(true)
+    await vi.advanceTimersByTimeAsync(10000)
+    expect(player.isPlaying()).toBe(true)
+    expect(player.getPosition()).toBe(500)
+
+    player.resume()
+    player.acknowledge(1, 'ended')
+
+    await expect(playback).resolves.toBeUndefined()
+    expect(events).toEqual(['pause 1', 'resume 1'])
+  })
+})
@@ -145,4 +145,29 @@ describe('ClaudeCodeParser', () => {
     expect(results[0].content).toBe('This is a normal user message.')
     expect(results[0].role).toBe('user')
   })
+
+  it('should carry session metadata over to later chunks of the file', async () => {
+    const firstChunk = `{"parentUuid":null,"isSidechain":false,"userType":"external","cwd":"/Users/test/project","sessionId":"session-1","version":"2.0.14","gitBranch":"feature/tts","type":"user","message":{"role":"user","content":"Start here"},"uuid":"test-uuid-1","timestamp":"2025-10-13T20:50:00.000Z"}
+{"parentUuid":"test-uuid-1","isSidechain":false,"userType":"external","cwd":"/Users/test/project","sessionId":"session-1","version":"2.0.14","gitBranch":"feature/tts","message":{"id":"msg_test1","type":"message","role":"assistant","model":"claude-sonnet-4","content":[{"type":"text","text":"Started"}]},"type":"assistant","uuid":"test-uuid-2","timestamp":"2025-10-13T20:50:05.000Z"}`
+    const laterChunk = `{"message":{"id":"msg_test2","type":"message","role":"assistant","content":[{"type":"text","text":"Still going"}]},"type":"assistant","uuid":"test-uuid-3","timestamp":"2025-10-13T20:51:00.000Z"}`
+
+    const session = {}
+    const first = await parser.parse(firstChunk, '/tmp/session-1.jsonl', session)
+    const later = await parser.parse(laterChunk, '/tmp/session-1.jsonl', session)
+
+    expect(first[1]).toMatchObject({
+      cwd: '/Users/test/project',
+      sessionId: 'session-1',
+      gitBranch: 'feature/tts',
+      model: 'claude-sonnet-4',
+    })
+    expect(later).toHaveLength(1)
+    expect(later[0]).toMatchObject({
+      content: 'Still going',
+      cwd: '/Users/test/project',
+      sessionId: 'session-1',
+      gitBranch: 'feature/tts',
+      model: 'claude-sonnet-4',
+    })
+  })
 })
@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { readFileSync } from 'fs'
+import { join } from 'path'
+import { CodexParser } from '../src/parsers/codex-parser'
+
+const fixture = readFileSync(
+  join(__dirname, 'fixtures/codex/rollout-2025-10-01T09-30-00-0199a1b2-c3d4-7e5f-8a9b-0c1d2e3f4a5b.jsonl'),
+  'utf-8',
+)
+
+describe('CodexParser', () => {
+  let parser: CodexParser
+
+  beforeEach(() => {
+    parser = new CodexParser()
+  })
+
+  it('should use append log mode', () => {
+    expect(parser.getLogMode()).toBe('append')
+  })
+
+  it('should extract user prompts and assistant replies from a rollout', async () => {
+    const results = await parser.parse(fixture)
+
+    expect(results.map((m) => [m.role, m.content])).toEqual([
+      ['user', 'Why does the queue panel stay empty?'],
+      ['assistant', 'The server never forwards the `queue-updated` event.'],
+      ['user', 'Fix it please'],
+      ['assistant', 'Done.\n\nThe panel now updates live.'],
+    ])
+  })
+
+  it('should skip injected instructions, reasoning and tool calls', async () => {
+    const results = await parser.parse(fixture)
+
+    expect(results.some((m) => m.content.includes('<user_instructions>'))).toBe(false)
+    expect(results.some((m) => m.content.includes('<environment_context>'))).toBe(false)
+    expect(results.some((m) => m.content.includes('queue-updated"'))).toBe(false)
+  })
+
+  it('should take cwd from the session metadata and follow turn context changes', async () => {
+    const results = await parser.parse(fixture)
+
+    expect(results[0].cwd).toBe('/Users/test/projects/agent-tts')
+    expect(results[1].cwd).toBe('/Users/test/projects/agent-tts')
+    expect(results[2].cwd).toBe('/Users/test/projects/agent-tts/src')
+  })
+
+  it('should attach the session id, branch and model', async () => {
+    const results = await parser.parse(fixture)
+
+    expect(results[0]).toMatchObject({ sessionId: '0199a1b2-c3d4-7e5f-8a9b-0c1d2e3f4a5b', gitBranch: 'main' })
+    expect(results[1].model).toBe('gpt-5-codex')
+  })
+
+  it('should keep the session for chunks appended later', async () => {
+    const session = {}
+    const [firstChunk, laterChunk] = [fixture.split('\n').slice(0, 12), fixture.split('\n').slice(12)].map((lines) =>
+      lines.join('\n'),
+    )
+
+    await parser.parse(firstChunk, undefined, session)
+    const later = await parser.parse(laterChunk, undefined, session)
+
+    expect(later[0]).toMatchObject({
+      content: 'Fix it please',
+      sessionId: '0199a1b2-c3d4-7e5f-8a9b-0c1d2e3f4a5b',
+      cwd: '/Users/test/projects/agent-tts/src',
+    })
+  })
+
+  it('should use the record timestamps', async () => {
+    const results = await parser.parse(fixture)
+
+    expect(results[0].timestamp?.toISOString()).toBe('2025-10-01T09:30:12.500Z')
+    expect(results[3].timestamp?.toISOString()).toBe('2025-10-01T09:31:30.000Z')
+  })
+
+  it('should read older rollouts with bare response items', async () => {
+    const testData = `{"id":"0196e3f1-0000-0000-0000-000000000000","timestamp":"2025-05-20T12:00:00.000Z","instructions":null}
+{"type":"message","role":"user","content":[{"type":"input_text","text":"<environment_context>\\n  <cwd>/Users/test/old</cwd>\\n</environment_context>"}]}
+{"record_type":"state"}
+{"type":"message","role":"user","content":[{"type":"input_text","text":"List the files"}]}
+{"type":"message","role":"assistant","content":[{"type":"output_text","text":"There are three files."}]}`
+
+    const results = await parser.parse(testData)
+
+    expect(results).toHaveLength(2)
+    expect(results[0]).toMatchObject({ role: 'user', content: 'List the files', cwd: '/Users/test/old' })
+    expect(results[1]).toMatchObject({ role: 'assistant', content: 'There are three files.', cwd: '/Users/test/old' })
+  })
+
+  it('should skip invalid JSON lines', async () => {
+    const testData = `{"timestamp":"2025-10-01T09:30:20.010Z","type":"response_item","payload":{"type":"message","role":"assistant","content":[{"type":"output_text","text":"Complete line"}]}}
+{"timestamp":"2025-10-01T09:30:21.000Z","type":"response_item","payload":{"type":"mess`
+
+    const results = await parser.parse(testData)
+
+    expect(results).toHaveLength(1)
+    expect(results[0].content).toBe('Complete line')
+  })
+})
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest'
+import { CommandTTSService } from '../src/services/tts/command'
+
+// Use node itself as a stand-in speech engine
+const node = process.execPath
+
+describe('CommandTTSService', () => {
+  it('should write text to stdin and read audio from stdout', async () => {
+    const service = new CommandTTSService({
+      type: 'command',
+      command: node,
+      args: ['-e', 'process.stdin.pipe(process.stdout)'],
+    })
+
+    const audio = await service.synthesize('Hello from stdin')
+
+    expect(audio.data.toString()).toBe('Hello from stdin')
+    expect(audio.extension).toBe('wav')
+  })
+
+  it('should substitute text, voice and speed into the arguments', async () => {
+    const service = new CommandTTSService({
+      type: 'command',
+      command: node,
+      voiceId: 'en-us',
+      args: ['-e', 'process.stdout.write(process.argv.slice(1).join("|"))', '{voice}', '{speed}', '{text}'],
+      options: { speed: 1.5 },
+    })
+
+    const audio = await service.synthesize('Hello')
+
+    expect(audio.data.toString()).toBe('en-us|1.5|Hello')
+  })
+
+  it('should pass text with placeholders and replacement patterns through unchanged', async () => {
+    const service = new CommandTTSService({
+      type: 'command',
+      command: node,
+      voiceId: 'en-us',
+      args: ['-e', 'process.stdout.write(process.argv[1])', '{text}'],
+    })
+
+    const audio = await service.synthesize("cost is $& now, $` and $' with {voice} at {speed}")
+
+    expect(audio.data.toString()).toBe("cost is $& now, $` and $' with {voice} at {speed}")
+  })
+
+  it('should read audio from the output file when {output} is used', async () => {
+    const service = new CommandTTSService({
+      type: 'command',
+      command: node,
+      args: ['-e', 'require("fs").writeFileSync(process.argv[1], "file audio")', '{output}'],
+      options: { format: 'ogg' },
+    })
+
+    const audio = await service.synthesize('Hello')
+
+    expect(audio.data.toString()).toBe('file audio')
+    expect(audio.extension).toBe('ogg')
+  })
+
+  it('should reject when the command fails', async () => {
+    const service = new CommandTTSService({
+      type: 'command',
+      command: node,
+      args: ['-e', 'console.error("no voice"); process.exit(2)'],
+    })
+
+    await expect(service.synthesize('Hello')).rejects.toThrow('exit code 2')
+  })
+
+  it('should report whether the command exists', () => {
+    expect(new CommandTTSService({ type: 'command', command: node }).isAvailable()).toBe(true)
+    expect(new CommandTTSService({ type: 'command', command: 'agent-tts-missing-engine' }).isAvailable()).toBe(false)
+  })
+})
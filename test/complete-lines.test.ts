@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest'
+import { takeCompleteLines } from '../src/utils/complete-lines'
+
+describe('takeCompleteLines', () => {
+  it('should leave out a half-written last line', () => {
+    const chunk = Buffer.from('{"type":"user"}\n{"type":"assis')
+
+    expect(takeCompleteLines(chunk)).toEqual({ text: '{"type":"user"}\n', byteLength: 16 })
+  })
+
+  it('should take everything when the chunk ends with a newline', () => {
+    const chunk = Buffer.from('one\ntwo\n')
+
+    expect(takeCompleteLines(chunk)).toEqual({ text: 'one\ntwo\n', byteLength: 8 })
+  })
+
+  it('should take nothing without a newline', () => {
+    expect(takeCompleteLines(Buffer.from('{"type":'))).toEqual({ text: '', byteLength: 0 })
+  })
+
+  it('should count bytes rather than characters', () => {
+    const chunk = Buffer.from('héllo 👋\nnext')
+    const { text, byteLength } = takeCompleteLines(chunk)
+
+    expect(text).toBe('héllo 👋\n')
+    expect(byteLength).toBe(Buffer.byteLength('héllo 👋\n'))
+    expect(chunk.subarray(byteLength).toString()).toBe('next')
+  })
+})
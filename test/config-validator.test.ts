@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest'
+import { validateParserConfig } from '../src/config/validator'
+
+const prefix = 'Profile[0].parser'
+
+describe('validateParserConfig', () => {
+  it('should accept built-in parsers', () => {
+    expect(validateParserConfig({ type: 'claude-code' }, prefix)).toBeNull()
+    expect(validateParserConfig({ type: 'codex', name: 'Codex' }, prefix)).toBeNull()
+  })
+
+  it('should reject unknown parser types and custom parsers without a function', () => {
+    expect(validateParserConfig({ type: 'cursor' }, prefix)).toMatch(/^Profile\[0\]\.parser: "type" must be one of/)
+    expect(validateParserConfig({ type: 'custom' }, prefix)).toMatch(/customParser/)
+  })
+
+  it('should accept a complete JSONL mapping', () => {
+    const parser = {
+      type: 'jsonl-mapping',
+      mapping: {
+        role: 'message.role',
+        roles: { human: 'user', ai: 'assistant' },
+        text: 'message.content[*].text',
+        timestamp: 'timestamp',
+        skip: [
+          { path: 'isMeta', equals: true },
+          { path: 'message.content[0].text', matches: '^<' },
+        ],
+        logMode: 'append',
+      },
+    }
+
+    expect(validateParserConfig(parser, prefix)).toBeNull()
+  })
+
+  it('should point at the mistake in a JSONL mapping', () => {
+    const withMapping = (mapping: unknown) => validateParserConfig({ type: 'jsonl-mapping', mapping }, prefix)
+
+    expect(withMapping(undefined)).toBe('Profile[0].parser.mapping: Must be an object')
+    expect(withMapping({ role: 'role' })).toBe('Profile[0].parser.mapping: Must have a "text" path')
+    expect(withMapping({ role: 'role', text: 'parts[x]' })).toMatch(/^Profile\[0\]\.parser\.mapping\.text: /)
+    expect(withMapping({ role: 'role', text: 'text', roles: { model: 'bot' } })).toMatch(/"model" must map to/)
+    expect(withMapping({ role: 'role', text: 'text', skip: [{ path: 'type' }] })).toMatch(
+      /skip\[0\]: Must have exactly one of/,
+    )
+    expect(withMapping({ role: 'role', text: 'text', skip: [{ path: 'type', matches: '(' }] })).toMatch(
+      /skip\[0\]: "matches" is not a valid regular expression/,
+    )
+    expect(withMapping({ role: 'role', text: 'text', logMode: 'rewrite' })).toMatch(/"logMode"/)
+  })
+})
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest'
+import { mkdtemp, rm, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { CustomTTSService } from '../src/services/tts/custom'
+import { TTSServiceFactory } from '../src/services/tts/factory'
+import { TTSMetadata } from '../src/services/tts/base'
+
+describe('CustomTTSService', () => {
+  it('should require a synthesize function', () => {
+    expect(() => TTSServiceFactory.create({ type: 'custom' })).toThrow('requires a synthesize function')
+  })
+
+  it('should require a name to keep its cached audio apart', () => {
+    const synthesize = async () => Buffer.from('audio')
+
+    expect(() => new CustomTTSService({ type: 'custom', synthesize })).toThrow('requires a name')
+
+    const first = new CustomTTSService({ type: 'custom', name: 'first', synthesize })
+    const second = new CustomTTSService({ type: 'custom', name: 'second', synthesize })
+    expect(first.getCacheKey('Hello')).not.toBe(second.getCacheKey('Hello'))
+  })
+
+  it('should pass text and metadata to the synthesize function', async () => {
+    const calls: { text: string; metadata: TTSMetadata }[] = []
+    const service = TTSServiceFactory.create({
+      type: 'custom',
+      name: 'test',
+      synthesize: async (text, metadata) => {
+        calls.push({ text, metadata })
+        return Buffer.from('audio')
+      },
+      options: { format: 'wav' },
+    })
+    const timestamp = new Date()
+
+    const audio = await service.synthesize('Hello', { profile: 'test', timestamp })
+
+    expect(service).toBeInstanceOf(CustomTTSService)
+    expect(calls).toEqual([{ text: 'Hello', metadata: { profile: 'test', timestamp } }])
+    expect(audio.data.toString()).toBe('audio')
+    expect(audio.extension).toBe('wav')
+  })
+
+  it('should read audio from a returned file path', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'custom-tts-'))
+    const file = join(dir, 'speech.ogg')
+    await writeFile(file, 'ogg data')
+
+    try {
+      const service = new CustomTTSService({ type: 'custom', name: 'test', synthesize: async () => file })
+      const audio = await service.synthesize('Hello')
+
+      expect(audio.data.toString()).toBe('ogg data')
+      expect(audio.extension).toBe('ogg')
+    } finally {
+      await rm(dir, { recursive: true, force: true })
+    }
+  })
+
+  it('should use the isAvailable function when provided', () => {
+    const synthesize = async () => Buffer.alloc(0)
+
+    expect(new CustomTTSService({ type: 'custom', name: 'test', synthesize }).isAvailable()).toBe(true)
+    expect(
+      new CustomTTSService({ type: 'custom', name: 'test', synthesize, isAvailable: () => false }).isAvailable(),
+    ).toBe(false)
+    expect(
+      new CustomTTSService({
+        type: 'custom',
+        name: 'test',
+        synthesize,
+        isAvailable: () => {
+          throw new Error('boom')
+        },
+      }).isAvailable(),
+    ).toBe(false)
+  })
+})
@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { ExtractiveSummaryFilter } from '../src/filters/extractive-summary-filter'
+import { FilterChain } from '../src/filters/filter-chain'
+
+describe('ExtractiveSummaryFilter', () => {
+  let filter: ExtractiveSummaryFilter
+
+  beforeEach(() => {
+    filter = new ExtractiveSummaryFilter(30)
+  })
+
+  it('should leave short messages unchanged', () => {
+    const message = { role: 'assistant' as const, content: 'All tests pass. Ready for review.' }
+
+    expect(filter.filter(message)).toBe(message)
+  })
+
+  it('should keep the opening sentence and the conclusion', () => {
+    const content = [
+      'I fixed the race condition in the file watcher.',
+      'The watcher was emitting change events before the initial scan finished.',
+      'It also read the file twice when chokidar coalesced two writes into one event.',
+      'I moved the offset update so it only happens after the chunk is queued.',
+      'There was also an unrelated typo in a log message that I cleaned up along the way.',
+      'Want me to add a regression test for this?',
+    ].join(' ')
+
+    const result = filter.filter({ role: 'assistant', content })!
+
+    expect(result.content.startsWith('I fixed the race condition in the file watcher.')).toBe(true)
+    expect(result.content.endsWith('Want me to add a regression test for this?')).toBe(true)
+    expect(result.content.split(/\s+/).length).toBeLessThanOrEqual(30)
+  })
+
+  it('should drop list items that are mostly identifiers', () => {
+    const content = [
+      'Here is what changed in this pass, and you should be able to test it right away.',
+      '',
+      'src/services/tts-queue.ts updated.',
+      'getAudioFilePath v2.1.0 removed.',
+      'AppCoordinator.getAudioUrl TTS_CACHE_DIR renamed.',
+      '',
+      'Let me know if you want the migration script as well.',
+    ].join('\n')
+
+    const result = new ExtractiveSummaryFilter(30).filter({ role: 'assistant', content })!
+
+    expect(result.content).not.toContain('tts-queue.ts')
+    expect(result.content).not.toContain('v2.1.0')
+    expect(result.content).toContain('Let me know if you want the migration script as well.')
+  })
+
+  it('should preserve the original sentence order', () => {
+    const content =
+      'First we update the parser. Then we rebuild the database from scratch. ' +
+      'After that we restart the server and watch the logs for errors. ' +
+      'Finally, can you confirm the dashboard shows your messages?'
+
+    const result = new ExtractiveSummaryFilter(15).filter({ role: 'assistant', content })!
+
+    expect(result.content).toBe(
+      'First we update the parser. Finally, can you confirm the dashboard shows your messages?',
+    )
+  })
+
+  it('should be available as a built-in filter', () => {
+    const chain = new FilterChain([{ name: 'summary', options: { maxWords: 10 } }])
+
+    expect(chain.getFilter('summary')).toBeInstanceOf(ExtractiveSummaryFilter)
+  })
+})
@@ -0,0 +1,75 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtemp, rm, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { FileChange, FileMonitor } from '../src/services/file-monitor'
+import { MessageProcessor } from '../src/services/message-processor'
+import { DatabaseManager } from '../src/services/database'
+import { ProfileConfig, TTSQueueEntry } from '../src/types/config'
+
+interface FileMonitorInternals {
+  handleFileRewrite(filepath: string, profile: ProfileConfig): Promise<void>
+}
+
+describe('FileMonitor rewrite mode', () => {
+  const profile = { id: 'gemini', parser: { type: 'gemini' }, filters: [] } as unknown as ProfileConfig
+
+  let dir: string
+  let filepath: string
+  let monitor: FileMonitorInternals
+  let processor: MessageProcessor
+  let logged: string[]
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'agent-tts-monitor-'))
+    filepath = join(dir, 'session.json')
+
+    const database = {
+      getFileState: () => null,
+      updateFileSession: () => {},
+      addTTSQueueEntry: async () => 1,
+    } as unknown as DatabaseManager
+    processor = new MessageProcessor(database)
+    logged = []
+    const log = (entry: TTSQueueEntry) => logged.push(entry.originalText)
+    processor.on('messageLogged', log)
+    processor.on('messageQueued', log)
+
+    const fileMonitor = new FileMonitor(database)
+    fileMonitor.on('fileChanged', (change: FileChange) => processor.processFileChange(change))
+    monitor = fileMonitor as unknown as FileMonitorInternals
+  })
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  // Writes the session file with the given messages and lets the monitor and processor handle it
+  async function rewrite(content: string): Promise<void> {
+    await writeFile(filepath, content)
+    await monitor.handleFileRewrite(filepath, profile)
+    // The processor runs from the fileChanged event, let it finish
+    await new Promise((resolve) => setTimeout(resolve, 10))
+  }
+
+  function session(...contents: string[]): string {
+    const messages = contents.map((content, i) => ({ type: i % 2 === 0 ? 'user' : 'gemini', content }))
+    return JSON.stringify({ sessionId: 's1', messages })
+  }
+
+  it('should only log the messages added since the last rewrite', async () => {
+    await rewrite(session('Rename the helper', 'Renamed it.'))
+    await rewrite(session('Rename the helper', 'Renamed it.', 'Now add a test', 'Added one.'))
+
+    expect(logged).toEqual(['Rename the helper', 'Renamed it.', 'Now add a test', 'Added one.'])
+  })
+
+  it('should not log messages again after a file was caught mid-write', async () => {
+    await rewrite(session('Rename the helper', 'Renamed it.'))
+    const complete = session('Rename the helper', 'Renamed it.', 'Now add a test', 'Added one.')
+    await rewrite(complete.slice(0, complete.length / 2))
+    await rewrite(complete)
+
+    expect(logged).toEqual(['Rename the helper', 'Renamed it.', 'Now add a test', 'Added one.'])
+  })
+})
@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { GeminiParser } from '../src/parsers/gemini-parser'
+
+const projectDir = '/Users/test/.gemini/tmp/9f2c4e1a7b'
+
+describe('GeminiParser', () => {
+  let parser: GeminiParser
+
+  beforeEach(() => {
+    parser = new GeminiParser()
+  })
+
+  it('should use rewrite log mode', () => {
+    expect(parser.getLogMode()).toBe('rewrite')
+  })
+
+  it('should parse session files', () => {
+    const testData = JSON.stringify({
+      sessionId: 'a1b2c3',
+      projectHash: '9f2c4e1a7b',
+      startTime: '2025-10-02T08:00:00.000Z',
+      messages: [
+        { id: '1', timestamp: '2025-10-02T08:00:05.000Z', type: 'user', content: 'Summarize the README' },
+        { id: '2', timestamp: '2025-10-02T08:00:06.000Z', type: 'info', content: 'Switched to fallback model' },
+        {
+          id: '3',
+          timestamp: '2025-10-02T08:00:09.000Z',
+          type: 'gemini',
+          content: 'It describes a text-to-speech monitor.',
+          model: 'gemini-2.5-pro',
+        },
+        { id: '4', timestamp: '2025-10-02T08:00:10.000Z', type: 'gemini', content: '', toolCalls: [{ id: 'call' }] },
+      ],
+    })
+
+    const results = parser.parse(testData, `${projectDir}/chats/session-2025-10-02T08-00-a1b2c3.json`)
+
+    expect(results).toHaveLength(2)
+    expect(results[0]).toMatchObject({ role: 'user', content: 'Summarize the README', cwd: projectDir })
+    expect(results[1]).toMatchObject({ role: 'assistant', content: 'It describes a text-to-speech monitor.' })
+    expect(results[1].timestamp?.toISOString()).toBe('2025-10-02T08:00:09.000Z')
+  })
+
+  it('should parse checkpoints and skip thoughts and function calls', () => {
+    const testData = JSON.stringify([
+      { role: 'user', parts: [{ text: 'Rename the helper' }] },
+      { role: 'model', parts: [{ text: 'Planning the rename', thought: true }, { functionCall: { name: 'edit' } }] },
+      { role: 'user', parts: [{ functionResponse: { name: 'edit', response: {} } }] },
+      { role: 'model', parts: [{ text: 'Renamed it in two files.' }] },
+    ])
+
+    const results = parser.parse(testData, `${projectDir}/checkpoint-rename.json`)
+
+    expect(results.map((m) => [m.role, m.content])).toEqual([
+      ['user', 'Rename the helper'],
+      ['assistant', 'Renamed it in two files.'],
+    ])
+    expect(results[0].cwd).toBe(projectDir)
+  })
+
+  it('should parse the prompt log', () => {
+    const testData = JSON.stringify([
+      { sessionId: 'a1b2c3', messageId: 0, type: 'user', message: '/help', timestamp: '2025-10-02T08:00:01.000Z' },
+      {
+        sessionId: 'a1b2c3',
+        messageId: 1,
+        type: 'user',
+        message: 'Summarize the README',
+        timestamp: '2025-10-02T08:00:05.000Z',
+      },
+    ])
+
+    const results = parser.parse(testData, `${projectDir}/logs.json`)
+
+    expect(results).toHaveLength(2)
+    expect(results[1]).toMatchObject({ role: 'user', content: 'Summarize the README', cwd: projectDir })
+  })
+
+  it('should return nothing for a partially written file', () => {
+    expect(parser.parse('{"sessionId":"a1b2c3","messages":[{"type":"user"', `${projectDir}/logs.json`)).toEqual([])
+  })
+})
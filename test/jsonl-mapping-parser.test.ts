@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest'
+import { JsonlMappingParser } from '../src/parsers/jsonl-mapping-parser'
+import { getJsonPath, parseJsonPath } from '../src/utils/json-path'
+import { JsonlMappingConfig } from '../src/types/config'
+
+const mapping: JsonlMappingConfig = {
+  role: 'event.author',
+  roles: { human: 'user', bot: 'assistant' },
+  text: 'event.parts[*].text',
+  timestamp: 'ts',
+  cwd: 'context.workdir',
+  sessionId: 'session',
+  skip: [
+    { path: 'event.internal', equals: true },
+    { path: 'event.parts[*].text', matches: '^<system>' },
+  ],
+}
+
+describe('JSON paths', () => {
+  it('should parse dotted paths with indexes and wildcards', () => {
+    expect(parseJsonPath('$.message.content[0].text')).toEqual(['message', 'content', 0, 'text'])
+    expect(parseJsonPath('parts[*].text')).toEqual(['parts', '*', 'text'])
+    expect(parseJsonPath('a..b')).toBeNull()
+    expect(parseJsonPath('a[x]')).toBeNull()
+    expect(parseJsonPath('a.')).toBeNull()
+    expect(parseJsonPath('')).toBeNull()
+  })
+
+  it('should collect values through wildcards', () => {
+    const data = { turns: [{ parts: [{ text: 'a' }, { text: 'b' }] }, { parts: [{ text: 'c' }] }] }
+
+    expect(getJsonPath(data, 'turns[0].parts[1].text')).toBe('b')
+    expect(getJsonPath(data, 'turns[*].parts[*].text')).toEqual(['a', 'b', 'c'])
+    expect(getJsonPath(data, 'turns[5].parts')).toBeUndefined()
+  })
+})
+
+describe('JsonlMappingParser', () => {
+  it('should map roles, text and timestamps', async () => {
+    const parser = new JsonlMappingParser(mapping)
+    const testData = `{"ts":"2025-10-04T10:00:00.000Z","event":{"author":"human","parts":[{"text":"Deploy it"}]}}
+{"ts":1759572005,"event":{"author":"bot","parts":[{"text":"Deploying."},{"call":"deploy"},{"text":"Done."}]}}
+{"ts":1759572006000,"event":{"author":"tool","parts":[{"text":"exit 0"}]}}`
+
+    const results = await parser.parse(testData)
+
+    expect(results.map((m) => [m.role, m.content])).toEqual([
+      ['user', 'Deploy it'],
+      ['assistant', 'Deploying.\n\nDone.'],
+    ])
+    expect(results[0].timestamp?.toISOString()).toBe('2025-10-04T10:00:00.000Z')
+    expect(results[1].timestamp?.toISOString()).toBe('2025-10-04T10:00:05.000Z')
+  })
+
+  it('should skip lines matching a skip rule', async () => {
+    const parser = new JsonlMappingParser(mapping)
+    const testData = `{"event":{"author":"bot","internal":true,"parts":[{"text":"Hidden"}]}}
+{"event":{"author":"human","parts":[{"text":"<system>reminder</system>"}]}}
+{"event":{"author":"bot","parts":[{"text":"Shown"}]}}`
+
+    const results = await parser.parse(testData)
+
+    expect(results).toHaveLength(1)
+    expect(results[0].content).toBe('Shown')
+  })
+
+  it('should carry session details over to later lines and chunks', async () => {
+    const parser = new JsonlMappingParser(mapping)
+    const session = {}
+
+    await parser.parse(
+      `{"session":"s-1","context":{"workdir":"/Users/test/app"},"event":{"author":"human","parts":[{"text":"Hi"}]}}`,
+      undefined,
+      session,
+    )
+    const later = await parser.parse(`{"event":{"author":"bot","parts":[{"text":"Hello"}]}}`, undefined, session)
+
+    expect(later[0]).toMatchObject({ content: 'Hello', cwd: '/Users/test/app', sessionId: 's-1' })
+  })
+
+  it('should keep only user and assistant roles without a role mapping', async () => {
+    const parser = new JsonlMappingParser({ role: 'role', text: 'content' })
+    const testData = `{"role":"system","content":"Be brief"}
+{"role":"assistant","content":"OK"}`
+
+    const results = await parser.parse(testData)
+
+    expect(results).toEqual([expect.objectContaining({ role: 'assistant', content: 'OK' })])
+  })
+
+  it('should use the configured log mode', () => {
+    expect(new JsonlMappingParser(mapping).getLogMode()).toBe('append')
+    expect(new JsonlMappingParser({ ...mapping, logMode: 'new' }).getLogMode()).toBe('new')
+  })
+})
@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { MessageCoalescer } from '../src/services/message-coalescer'
+import { QueuedMessage } from '../src/services/tts-queue'
+import { CoalesceConfig, ProfileConfig } from '../src/types/config'
+
+function message(id: number, coalesce?: CoalesceConfig, cwd = '/project'): QueuedMessage {
+  return {
+    id,
+    timestamp: new Date(),
+    filename: 'session.jsonl',
+    profile: 'claude',
+    originalText: `Original ${id}`,
+    filteredText: `Message ${id}.`,
+    state: 'queued',
+    cwd,
+    profileConfig: { id: 'claude', coalesce } as unknown as ProfileConfig,
+  }
+}
+
+describe('MessageCoalescer', () => {
+  let coalescer: MessageCoalescer
+  let ready: { message: QueuedMessage; replaced: (number | undefined)[] }[]
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    coalescer = new MessageCoalescer()
+    ready = []
+    coalescer.on('ready', (message: QueuedMessage, replaced: QueuedMessage[]) => {
+      ready.push({ message, replaced: replaced.map((m) => m.id) })
+    })
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should pass messages through when coalescing is off', () => {
+    coalescer.add(message(1))
+    expect(ready.map((r) => r.message.id)).toEqual([1])
+  })
+
+  it('should speak only the last message once the burst goes quiet', () => {
+    const options = { windowSeconds: 3 }
+    coalescer.add(message(1, options))
+    vi.advanceTimersByTime(2000)
+    coalescer.add(message(2, options))
+    vi.advanceTimersByTime(2000)
+    coalescer.add(message(3, options))
+
+    expect(ready).toEqual([])
+
+    vi.advanceTimersByTime(3000)
+    expect(ready.map((r) => r.message.id)).toEqual([3])
+    expect(ready[0].replaced).toEqual([1, 2])
+    expect(ready[0].message.filteredText).toBe('Message 3.')
+  })
+
+  it('should merge a burst into one utterance', () => {
+    const options = { windowSeconds: 3, mode: 'merge' as const }
+    coalescer.add(message(1, options))
+    coalescer.add(message(2, options))
+    vi.advanceTimersByTime(3000)
+
+    expect(ready).toHaveLength(1)
+    expect(ready[0].message.id).toBe(2)
+    expect(ready[0].message.filteredText).toBe('Message 1.\n\nMessage 2.')
+    expect(ready[0].replaced).toEqual([1])
+  })
+
+  it('should keep bursts from different directories apart', () => {
+    const options = { windowSeconds: 3 }
+    coalescer.add(message(1, options, '/a'))
+    coalescer.add(message(2, options, '/b'))
+    vi.advanceTimersByTime(3000)
+
+    expect(ready.map((r) => r.message.id).sort()).toEqual([1, 2])
+  })
+
+  it('should emit pending bursts on flush', () => {
+    coalescer.add(message(1, { windowSeconds: 30 }))
+    coalescer.flushAll()
+
+    expect(ready.map((r) => r.message.id)).toEqual([1])
+    vi.advanceTimersByTime(30000)
+    expect(ready).toHaveLength(1)
+  })
+})
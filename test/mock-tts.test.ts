@@ -0,0 +1,178 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from 'vitest'
+import { mkdtemp, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import type { MockTTSService as MockTTSServiceType } from '../src/services/tts/mock'
+import type { TTSServiceFactory as TTSServiceFactoryType } from '../src/services/tts/factory'
+import type { TTSQueueProcessor as TTSQueueProcessorType, QueuedMessage } from '../src/services/tts-queue'
+import type { AudioPlayer as AudioPlayerType } from '../src/services/audio-player'
+import { DatabaseManager } from '../src/services/database'
+import { ProfileConfig, TTSQueueEntry, TTSServiceConfig } from '../src/types/config'
+
+let cacheHome: string
+let previousCacheHome: string | undefined
+let MockTTSService: typeof MockTTSServiceType
+let TTSServiceFactory: typeof TTSServiceFactoryType
+let TTSQueueProcessor: typeof TTSQueueProcessorType
+let AudioPlayer: typeof AudioPlayerType
+
+beforeAll(async () => {
+  // Cache paths are resolved on import, so point them at a temp dir first
+  cacheHome = await mkdtemp(join(tmpdir(), 'agent-tts-cache-'))
+  previousCacheHome = process.env.XDG_CACHE_HOME
+  process.env.XDG_CACHE_HOME = cacheHome
+  MockTTSService = (await import('../src/services/tts/mock')).MockTTSService
+  TTSServiceFactory = (await import('../src/services/tts/factory')).TTSServiceFactory
+  TTSQueueProcessor = (await import('../src/services/tts-queue')).TTSQueueProcessor
+  AudioPlayer = (await import('../src/services/audio-player')).AudioPlayer
+})
+
+afterAll(async () => {
+  if (previousCacheHome === undefined) {
+    delete process.env.XDG_CACHE_HOME
+  } else {
+    process.env.XDG_CACHE_HOME = previousCacheHome
+  }
+  await rm(cacheHome, { recursive: true, force: true })
+})
+
+describe('MockTTSService', () => {
+  it('should be created by the factory', () => {
+    const service = TTSServiceFactory.create({ type: 'mock' })
+
+    expect(service).toBeInstanceOf(MockTTSService)
+    expect(service.isAvailable()).toBe(true)
+    expect(service.getAudioFormat()).toBe('wav')
+  })
+
+  it('should generate a WAV whose length scales with the text', async () => {
+    const service = new MockTTSService({ type: 'mock', options: { msPerChar: 50 } })
+
+    const short = await service.synthesize('Done!')
+    const long = await service.synthesize('All tests pass and the build is green.')
+
+    expect(short.extension).toBe('wav')
+    expect(short.data.toString('ascii', 0, 4)).toBe('RIFF')
+    expect(short.data.toString('ascii', 8, 12)).toBe('WAVE')
+    expect(long.data.length).toBeGreaterThan(short.data.length)
+
+    // 16kHz, 16-bit mono: 32 bytes per ms, plus a 44 byte header
+    expect(long.data.length).toBe(44 + 38 * 50 * 32)
+  })
+
+  it('should produce identical audio for identical text', async () => {
+    const service = new MockTTSService({ type: 'mock' })
+
+    const first = await service.synthesize('Hello there.')
+    const second = await service.synthesize('Hello there.')
+
+    expect(first.data.equals(second.data)).toBe(true)
+  })
+
+  it('should generate silence when frequency is 0', async () => {
+    const service = new MockTTSService({ type: 'mock', options: { frequency: 0 } })
+
+    const audio = await service.synthesize('Quiet please.')
+
+    expect(audio.data.subarray(44).every((byte) => byte === 0)).toBe(true)
+  })
+
+  it('should fail at the configured rate with a reproducible sequence', async () => {
+    const run = async () => {
+      const service = new MockTTSService({ type: 'mock', options: { failureRate: 0.5, seed: 42 } })
+      const results: boolean[] = []
+      for (let i = 0; i < 20; i++) {
+        results.push(
+          await service.synthesize('test').then(
+            () => true,
+            () => false,
+          ),
+        )
+      }
+      return results
+    }
+
+    const first = await run()
+    const second = await run()
+
+    expect(first).toEqual(second)
+    expect(first).toContain(true)
+    expect(first).toContain(false)
+  })
+
+  it('should always fail when failureRate is 1', async () => {
+    const service = new MockTTSService({ type: 'mock', options: { failureRate: 1 } })
+
+    await expect(service.synthesize('test')).rejects.toThrow('Simulated TTS failure')
+  })
+})
+
+describe('TTSQueueProcessor with the mock service', () => {
+  let updates: Partial<TTSQueueEntry>[]
+  let queue: TTSQueueProcessorType
+
+  beforeEach(() => {
+    updates = []
+    const database = {
+      updateTTSQueueEntry: (id: number, entry: Partial<TTSQueueEntry>) => {
+        updates.push({ id, ...entry })
+      },
+      resetStuckPlayingEntries: () => {},
+    } as unknown as DatabaseManager
+
+    queue = new TTSQueueProcessor(database)
+    // Failures are reported as events as well, which the app coordinator listens for
+    queue.on('error', () => {})
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  // Long enough to be synthesized
+  function message(id: number, text: string, ttsService: TTSServiceConfig): QueuedMessage {
+    const filteredText = `${text}${' and then some more'.repeat(5)}`
+    return {
+      id,
+      timestamp: new Date(),
+      filename: 'session.jsonl',
+      profile: 'claude',
+      originalText: filteredText,
+      filteredText,
+      state: 'queued',
+      profileConfig: { id: 'claude', ttsService } as unknown as ProfileConfig,
+    }
+  }
+
+  async function play(entry: QueuedMessage): Promise<Partial<TTSQueueEntry>> {
+    queue.addToQueue(entry)
+    await vi.waitFor(() => {
+      expect(updates.at(-1)?.id).toBe(entry.id)
+      expect(['played', 'error']).toContain(updates.at(-1)?.state)
+    })
+    return updates.at(-1)!
+  }
+
+  it('should play cached audio the second time the same text is spoken', async () => {
+    const played = vi.spyOn(AudioPlayer.prototype, 'play').mockResolvedValue()
+    const synthesize = vi.spyOn(MockTTSService.prototype, 'synthesize')
+    const ttsService: TTSServiceConfig = { type: 'mock' }
+
+    expect(await play(message(1, 'Cache me', ttsService))).toMatchObject({ id: 1, state: 'played' })
+    expect(await play(message(2, 'Cache me', ttsService))).toMatchObject({ id: 2, state: 'played' })
+
+    expect(synthesize).toHaveBeenCalledTimes(1)
+    expect(played).toHaveBeenCalledTimes(2)
+    expect(played.mock.calls[1][0]).toBe(played.mock.calls[0][0])
+    expect(updates).toContainEqual(expect.objectContaining({ id: 2, audioFormat: 'wav' }))
+  })
+
+  it('should mark the message as an error when synthesis fails', async () => {
+    const played = vi.spyOn(AudioPlayer.prototype, 'play').mockResolvedValue()
+
+    const result = await play(message(3, 'Fail me', { type: 'mock', options: { failureRate: 1 } }))
+
+    expect(result).toMatchObject({ id: 3, state: 'error', apiResponseMessage: 'Simulated TTS failure' })
+    expect(played).not.toHaveBeenCalled()
+  })
+})
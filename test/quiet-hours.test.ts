@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest'
+import { getActiveQuietHours, parseTime } from '../src/utils/quiet-hours'
+import { QuietHoursRule } from '../src/types/config'
+
+// 2025-01-06 is a Monday
+const at = (day: number, time: string) => new Date(`2025-01-${String(day).padStart(2, '0')}T${time}:00`)
+
+describe('quiet hours', () => {
+  it('should parse HH:MM times', () => {
+    expect(parseTime('07:30')).toBe(450)
+    expect(parseTime('9:05')).toBe(545)
+    expect(parseTime('24:00')).toBeNull()
+    expect(parseTime('noon')).toBeNull()
+  })
+
+  it('should match a daytime range on the listed weekdays', () => {
+    const rules: QuietHoursRule[] = [{ name: 'Standup', days: ['mon', 'wed'], start: '10:00', end: '10:30' }]
+
+    expect(getActiveQuietHours(rules, at(6, '10:15'))).toEqual(rules)
+    expect(getActiveQuietHours(rules, at(6, '10:30'))).toEqual([])
+    expect(getActiveQuietHours(rules, at(7, '10:15'))).toEqual([])
+  })
+
+  it('should run past midnight into the next day', () => {
+    const rules: QuietHoursRule[] = [{ days: ['fri'], start: '22:00', end: '07:00' }]
+
+    // Friday night and early Saturday, but not early Friday
+    expect(getActiveQuietHours(rules, at(10, '23:00'))).toHaveLength(1)
+    expect(getActiveQuietHours(rules, at(11, '06:59'))).toHaveLength(1)
+    expect(getActiveQuietHours(rules, at(10, '06:00'))).toHaveLength(0)
+  })
+
+  it('should only apply to the listed profiles', () => {
+    const rules: QuietHoursRule[] = [{ start: '00:00', end: '00:00', profiles: ['build'] }]
+
+    expect(getActiveQuietHours(rules, at(6, '12:00'), 'build')).toHaveLength(1)
+    expect(getActiveQuietHours(rules, at(6, '12:00'), 'reviewer')).toHaveLength(0)
+    expect(getActiveQuietHours(rules, at(6, '12:00'))).toHaveLength(1)
+  })
+
+  it('should ignore invalid rules', () => {
+    expect(getActiveQuietHours([{ start: '25:00', end: '07:00' }], at(6, '23:00'))).toEqual([])
+  })
+})
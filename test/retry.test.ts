@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest'
+import { getRetryDelay, isTransientError, TTSErrorDetails, withRetry } from '../src/utils/retry'
+
+function serviceError(details: TTSErrorDetails): Error {
+  return Object.assign(new Error('TTS request failed'), { details })
+}
+
+describe('isTransientError', () => {
+  it('should retry rate limits, server errors and refused connections', () => {
+    expect(isTransientError(serviceError({ status: 429 }))).toBe(true)
+    expect(isTransientError(serviceError({ status: 503 }))).toBe(true)
+    expect(isTransientError(serviceError({ code: 'ECONNREFUSED' }))).toBe(true)
+  })
+
+  it('should not retry other client errors', () => {
+    expect(isTransientError(serviceError({ status: 401 }))).toBe(false)
+    expect(isTransientError(serviceError({ status: 400 }))).toBe(false)
+    expect(isTransientError(new Error('Invalid voice'))).toBe(false)
+  })
+})
+
+describe('getRetryDelay', () => {
+  it('should back off exponentially up to the maximum', () => {
+    const options = { initialDelay: 100, maxDelay: 500 }
+
+    expect(getRetryDelay(1, options)).toBe(100)
+    expect(getRetryDelay(2, options)).toBe(200)
+    expect(getRetryDelay(3, options)).toBe(400)
+    expect(getRetryDelay(4, options)).toBe(500)
+  })
+
+  it('should honor Retry-After from the service', () => {
+    expect(getRetryDelay(1, { initialDelay: 100 }, serviceError({ status: 429, retryAfterMs: 2000 }))).toBe(2000)
+  })
+})
+
+describe('withRetry', () => {
+  it('should retry transient failures until the operation succeeds', async () => {
+    const retries: number[] = []
+    let calls = 0
+
+    const result = await withRetry(
+      async () => {
+        calls++
+        if (calls < 3) throw serviceError({ status: 503 })
+        return 'audio'
+      },
+      { initialDelay: 1, onRetry: (attempt) => retries.push(attempt) },
+    )
+
+    expect(result).toBe('audio')
+    expect(calls).toBe(3)
+    expect(retries).toEqual([1, 2])
+  })
+
+  it('should give up after maxRetries', async () => {
+    let calls = 0
+
+    await expect(
+      withRetry(
+        async () => {
+          calls++
+          throw serviceError({ status: 429 })
+        },
+        { maxRetries: 2, initialDelay: 1 },
+      ),
+    ).rejects.toThrow('TTS request failed')
+    expect(calls).toBe(3)
+  })
+
+  it('should not retry permanent failures', async () => {
+    let calls = 0
+
+    await expect(
+      withRetry(
+        async () => {
+          calls++
+          throw serviceError({ status: 401 })
+        },
+        { initialDelay: 1 },
+      ),
+    ).rejects.toThrow()
+    expect(calls).toBe(1)
+  })
+})
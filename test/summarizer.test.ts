@@ -0,0 +1,216 @@
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import axios, { AxiosError, AxiosResponse } from 'axios'
+import { SummarizerFactory } from '../src/services/summarizer/factory'
+import { CommandSummarizer } from '../src/services/summarizer/command'
+import { ExtractiveSummarizer } from '../src/services/summarizer/extractive'
+import { OpenAISummarizer } from '../src/services/summarizer/openai'
+import { MessageProcessor } from '../src/services/message-processor'
+import { QueuedMessage } from '../src/services/tts-queue'
+import { DatabaseManager } from '../src/services/database'
+import { ProfileConfig, SummarizerConfig } from '../src/types/config'
+
+// Run a node script as the summarizer command
+function nodeCommand(script: string, options: Partial<SummarizerConfig> = {}): CommandSummarizer {
+  return new CommandSummarizer({ type: 'command', command: process.execPath, args: ['-e', script], ...options })
+}
+
+describe('SummarizerFactory', () => {
+  it('should create the configured summarizer', () => {
+    expect(SummarizerFactory.create({ type: 'extractive' })).toBeInstanceOf(ExtractiveSummarizer)
+    expect(SummarizerFactory.create({ type: 'command', command: 'llm' })).toBeInstanceOf(CommandSummarizer)
+    expect(SummarizerFactory.create({ type: 'openai-compatible' })).toBeInstanceOf(OpenAISummarizer)
+  })
+
+  it('should return null when summarization is off', () => {
+    expect(SummarizerFactory.create()).toBeNull()
+    expect(SummarizerFactory.create({ type: 'none' })).toBeNull()
+  })
+
+  it('should reject unknown types and incomplete configs', () => {
+    expect(() => SummarizerFactory.create({ type: 'magic' } as unknown as SummarizerConfig)).toThrow(
+      'Unknown summarizer type: magic',
+    )
+    expect(() => SummarizerFactory.create({ type: 'command' })).toThrow('requires a command')
+  })
+})
+
+describe('CommandSummarizer', () => {
+  it('should pass the message on stdin and the prompt in the arguments', async () => {
+    const summarizer = new CommandSummarizer({
+      type: 'command',
+      command: process.execPath,
+      args: [
+        '-e',
+        "let s = ''; process.stdin.on('data', (c) => (s += c)).on('end', () => console.log(`${process.argv[1]}: ${s.length}`))",
+        '{prompt}',
+      ],
+      prompt: 'Shorten',
+    })
+
+    expect(await summarizer.summarize('Twelve chars')).toBe('Shorten: 12')
+  })
+
+  it('should pass a prompt with replacement patterns through unchanged', async () => {
+    const summarizer = new CommandSummarizer({
+      type: 'command',
+      command: process.execPath,
+      args: ['-e', 'console.log(process.argv[1])', '{prompt}'],
+      prompt: "Keep $&, $` and $' as they are",
+    })
+
+    expect(await summarizer.summarize('text')).toBe("Keep $&, $` and $' as they are")
+  })
+
+  it('should fail with the exit code and stderr', async () => {
+    const summarizer = nodeCommand("process.stderr.write('model not found'); process.exit(2)")
+
+    await expect(summarizer.summarize('text')).rejects.toThrow(/exit code 2\nmodel not found/)
+  })
+
+  it('should kill the command when it takes too long', async () => {
+    const summarizer = nodeCommand('setTimeout(() => {}, 10000)', { timeout: 200 })
+
+    await expect(summarizer.summarize('text')).rejects.toThrow('timed out after 200ms')
+  })
+
+  it('should not fail when the command exits without reading its input', async () => {
+    const summarizer = nodeCommand("console.log('Done'); process.exit(0)")
+
+    expect(await summarizer.summarize('x'.repeat(1024 * 1024))).toBe('Done')
+  })
+})
+
+describe('OpenAISummarizer', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  function response(data: unknown, status = 200): AxiosResponse {
+    return { data, status } as AxiosResponse
+  }
+
+  it('should send the prompt as the system message and return the reply', async () => {
+    const post = vi
+      .spyOn(axios, 'post')
+      .mockResolvedValue(response({ choices: [{ message: { content: '  Short version.  ' } }] }))
+    const summarizer = new OpenAISummarizer({
+      type: 'openai-compatible',
+      baseUrl: 'http://localhost:11434/v1',
+      apiKey: 'key',
+      model: 'llama3',
+      maxTokens: 200,
+      prompt: 'Shorten',
+    })
+
+    expect(await summarizer.summarize('A long message')).toBe('Short version.')
+    expect(post).toHaveBeenCalledWith(
+      'http://localhost:11434/v1/chat/completions',
+      {
+        model: 'llama3',
+        messages: [
+          { role: 'system', content: 'Shorten' },
+          { role: 'user', content: 'A long message' },
+        ],
+        max_tokens: 200,
+      },
+      { headers: { 'Content-Type': 'application/json', Authorization: 'Bearer key' }, timeout: 30000 },
+    )
+  })
+
+  it('should reject empty replies', async () => {
+    vi.spyOn(axios, 'post').mockResolvedValue(response({ choices: [{ message: { content: ' ' } }] }))
+
+    await expect(new OpenAISummarizer({ type: 'openai-compatible' }).summarize('text')).rejects.toThrow(
+      'empty response',
+    )
+  })
+
+  it('should turn request failures into short errors', async () => {
+    const summarizer = new OpenAISummarizer({ type: 'openai-compatible', baseUrl: 'http://localhost:1234/v1' })
+    const post = vi.spyOn(axios, 'post')
+
+    post.mockRejectedValueOnce(new AxiosError('timeout', 'ECONNABORTED'))
+    await expect(summarizer.summarize('text')).rejects.toThrow('timed out after 30000ms')
+
+    post.mockRejectedValueOnce(new AxiosError('connect', 'ECONNREFUSED'))
+    await expect(summarizer.summarize('text')).rejects.toThrow(
+      'Cannot connect to summarizer at http://localhost:1234/v1',
+    )
+
+    post.mockRejectedValueOnce(new AxiosError('failed', 'ERR_BAD_RESPONSE', undefined, undefined, response({}, 500)))
+    await expect(summarizer.summarize('text')).rejects.toThrow('failed with status 500')
+  })
+})
+
+describe('MessageProcessor summarization', () => {
+  const text = 'The build is green and every test passes, so the change is ready for review whenever you have time.'
+  const line = JSON.stringify({
+    type: 'assistant',
+    message: { role: 'assistant', content: [{ type: 'text', text }] },
+    timestamp: '2025-01-06T10:00:00.000Z',
+  })
+
+  async function processMessage(summarizer: SummarizerConfig): Promise<QueuedMessage[]> {
+    const database = {
+      getFileState: () => null,
+      addTTSQueueEntry: async () => 1,
+    } as unknown as DatabaseManager
+    const processor = new MessageProcessor(database)
+    const queued: QueuedMessage[] = []
+    processor.on('messageQueued', (message: QueuedMessage) => queued.push(message))
+
+    const profile = {
+      id: 'claude',
+      parser: { type: 'claude-code' },
+      filters: [],
+      summarizer,
+    } as unknown as ProfileConfig
+    await processor.processFileChange({ filepath: '/tmp/session.jsonl', profile, content: line, offset: 0 })
+    return queued
+  }
+
+  it('should speak the summary', async () => {
+    const [message] = await processMessage({
+      type: 'command',
+      command: process.execPath,
+      args: ['-e', "console.log('Ready.')"],
+      minLength: 10,
+    })
+
+    expect(message.filteredText).toBe('Ready.')
+    expect(message.originalText).toBe(text)
+  })
+
+  it('should fall back to the filtered text when the summarizer fails', async () => {
+    const [message] = await processMessage({
+      type: 'command',
+      command: process.execPath,
+      args: ['-e', 'process.exit(1)'],
+      minLength: 10,
+    })
+
+    expect(message.filteredText).toBe(text)
+  })
+
+  it('should fall back to the filtered text when the summary is empty', async () => {
+    const [message] = await processMessage({
+      type: 'command',
+      command: process.execPath,
+      args: ['-e', ''],
+      minLength: 10,
+    })
+
+    expect(message.filteredText).toBe(text)
+  })
+
+  it('should skip messages shorter than minLength', async () => {
+    const [message] = await processMessage({
+      type: 'command',
+      command: process.execPath,
+      args: ['-e', "console.log('Ready.')"],
+      minLength: 1000,
+    })
+
+    expect(message.filteredText).toBe(text)
+  })
+})
@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest'
+import { splitIntoChunks } from '../src/utils/text-chunker'
+
+describe('splitIntoChunks', () => {
+  it('should start with a single sentence and group the rest', () => {
+    const text = 'First one. Second one! Third one? Fourth one.'
+
+    expect(splitIntoChunks(text, 30)).toEqual(['First one.', 'Second one! Third one?', 'Fourth one.'])
+  })
+
+  it('should split on line breaks', () => {
+    expect(splitIntoChunks('Heading\n\nFirst line\nSecond line')).toEqual(['Heading', 'First line Second line'])
+  })
+
+  it('should keep a sentence longer than maxChars whole', () => {
+    const long = 'This sentence is far longer than the limit allows.'
+
+    expect(splitIntoChunks(`Short. ${long} Done.`, 20)).toEqual(['Short.', long, 'Done.'])
+  })
+
+  it('should return no chunks for blank text', () => {
+    expect(splitIntoChunks('')).toEqual([])
+    expect(splitIntoChunks(' \n\n ')).toEqual([])
+  })
+})
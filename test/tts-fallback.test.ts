@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from 'vitest'
+import { mkdtemp, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import type { TTSQueueProcessor as TTSQueueProcessorType, QueuedMessage } from '../src/services/tts-queue'
+import type { AudioPlayer as AudioPlayerType } from '../src/services/audio-player'
+import type { MockTTSService as MockTTSServiceType } from '../src/services/tts/mock'
+import { DatabaseManager } from '../src/services/database'
+import { ProfileConfig, TTSQueueEntry, TTSServiceConfig } from '../src/types/config'
+
+describe('TTS fallback providers', () => {
+  let cacheHome: string
+  let previousCacheHome: string | undefined
+  let TTSQueueProcessor: typeof TTSQueueProcessorType
+  let AudioPlayer: typeof AudioPlayerType
+  let MockTTSService: typeof MockTTSServiceType
+
+  let updates: Partial<TTSQueueEntry>[]
+  let queue: TTSQueueProcessorType
+
+  beforeAll(async () => {
+    // Cache paths are resolved on import, so point them at a temp dir first
+    cacheHome = await mkdtemp(join(tmpdir(), 'agent-tts-cache-'))
+    previousCacheHome = process.env.XDG_CACHE_HOME
+    process.env.XDG_CACHE_HOME = cacheHome
+    TTSQueueProcessor = (await import('../src/services/tts-queue')).TTSQueueProcessor
+    AudioPlayer = (await import('../src/services/audio-player')).AudioPlayer
+    MockTTSService = (await import('../src/services/tts/mock')).MockTTSService
+  })
+
+  afterAll(async () => {
+    if (previousCacheHome === undefined) {
+      delete process.env.XDG_CACHE_HOME
+    } else {
+      process.env.XDG_CACHE_HOME = previousCacheHome
+    }
+    await rm(cacheHome, { recursive: true, force: true })
+  })
+
+  beforeEach(() => {
+    updates = []
+    const database = {
+      updateTTSQueueEntry: (id: number, entry: Partial<TTSQueueEntry>) => {
+        updates.push({ id, ...entry })
+      },
+      resetStuckPlayingEntries: () => {},
+    } as unknown as DatabaseManager
+
+    queue = new TTSQueueProcessor(database)
+    // Failures are reported as events as well, which the app coordinator listens for
+    queue.on('error', () => {})
+    vi.spyOn(AudioPlayer.prototype, 'play').mockResolvedValue()
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  // Long enough to be synthesized
+  function message(id: number, ttsService: TTSServiceConfig[]): QueuedMessage {
+    const text = `Message ${id} from the fallback tests${' and then some more'.repeat(5)}`
+    return {
+      id,
+      timestamp: new Date(),
+      filename: 'session.jsonl',
+      profile: 'claude',
+      originalText: text,
+      filteredText: text,
+      state: 'queued',
+      profileConfig: { id: 'claude', ttsService } as unknown as ProfileConfig,
+    }
+  }
+
+  async function play(entry: QueuedMessage): Promise<Partial<TTSQueueEntry>> {
+    queue.addToQueue(entry)
+    await vi.waitFor(() => expect(['played', 'error']).toContain(updates.at(-1)?.state))
+    return updates.at(-1)!
+  }
+
+  // The voice of each mock service asked to synthesize, in order
+  function synthesizedVoices(spy: { mock: { contexts: unknown[] } }): string[] {
+    return spy.mock.contexts.map((service) => (service as { config: TTSServiceConfig }).config.voiceId!)
+  }
+
+  const failing = (voiceId: string): TTSServiceConfig => ({ type: 'mock', voiceId, options: { failureRate: 1 } })
+  const working = (voiceId: string): TTSServiceConfig => ({ type: 'mock', voiceId })
+
+  it('should try the services in order until one succeeds and record the fallback', async () => {
+    const synthesize = vi.spyOn(MockTTSService.prototype, 'synthesize')
+
+    const result = await play(message(1, [failing('a'), failing('b'), working('c'), working('d')]))
+
+    expect(result.state).toBe('played')
+    expect(synthesizedVoices(synthesize)).toEqual(['a', 'b', 'c'])
+    expect(updates).toContainEqual(
+      expect.objectContaining({
+        id: 1,
+        ttsFallback: 'mock',
+        apiResponseMessage: 'Fell back to mock (mock: Simulated TTS failure; mock: Simulated TTS failure)',
+      }),
+    )
+  })
+
+  it('should not record a fallback when the first service succeeds', async () => {
+    await play(message(2, [working('a'), working('b')]))
+
+    expect(updates.some((update) => 'ttsFallback' in update)).toBe(false)
+  })
+
+  it('should not fall back once playback has started', async () => {
+    const synthesize = vi.spyOn(MockTTSService.prototype, 'synthesize')
+    vi.spyOn(AudioPlayer.prototype, 'play').mockRejectedValue(new Error('Player crashed'))
+
+    const result = await play(message(3, [working('a'), working('b')]))
+
+    expect(result).toMatchObject({ id: 3, state: 'error', apiResponseMessage: 'Player crashed' })
+    expect(synthesizedVoices(synthesize)).toEqual(['a'])
+  })
+
+  it('should mark the message as an error when every service fails', async () => {
+    const result = await play(message(4, [failing('a'), failing('b')]))
+
+    expect(result).toMatchObject({
+      id: 4,
+      state: 'error',
+      apiResponseMessage: 'All TTS services failed (mock: Simulated TTS failure; mock: Simulated TTS failure)',
+    })
+  })
+})
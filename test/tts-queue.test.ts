@@ -0,0 +1,220 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { TTSQueueProcessor, QueuedMessage } from '../src/services/tts-queue'
+import { DatabaseManager } from '../src/services/database'
+import { AudioPlayer } from '../src/services/audio-player'
+import { MockTTSService } from '../src/services/tts/mock'
+import { ProfileConfig } from '../src/types/config'
+
+const profileConfig = { id: 'claude', ttsService: { type: 'mock' } } as unknown as ProfileConfig
+
+function message(id: number): QueuedMessage {
+  return {
+    id,
+    timestamp: new Date(),
+    filename: 'session.jsonl',
+    profile: 'claude',
+    originalText: `Message ${id}`,
+    filteredText: `Message ${id}`,
+    state: 'queued',
+    profileConfig,
+  }
+}
+
+describe('TTSQueueProcessor queue management', () => {
+  let queue: TTSQueueProcessor
+  let updates: { id: number; state?: string }[]
+  let snapshots: (number | undefined)[][]
+
+  beforeEach(() => {
+    updates = []
+    snapshots = []
+    const database = {
+      updateTTSQueueEntry: (id: number, entry: { state?: string }) => {
+        updates.push({ id, state: entry.state })
+      },
+    } as unknown as DatabaseManager
+
+    queue = new TTSQueueProcessor(database)
+    queue.on('queue-updated', (messages: QueuedMessage[]) => snapshots.push(messages.map((m) => m.id)))
+
+    // Hold the queue so nothing is played
+    queue.pauseCurrent()
+    ;[1, 2, 3].forEach((id) => queue.addToQueue(message(id)))
+  })
+
+  it('should list waiting messages in order and report each change', () => {
+    expect(queue.getQueue().map((m) => m.id)).toEqual([1, 2, 3])
+    expect(snapshots).toEqual([[1], [1, 2], [1, 2, 3]])
+  })
+
+  it('should move a message to a new position', () => {
+    expect(queue.moveInQueue(3, 0)).toBe(true)
+    expect(queue.getQueue().map((m) => m.id)).toEqual([3, 1, 2])
+
+    expect(queue.moveInQueue(3, 99)).toBe(true)
+    expect(queue.getQueue().map((m) => m.id)).toEqual([1, 2, 3])
+    expect(snapshots.at(-1)).toEqual([1, 2, 3])
+  })
+
+  it('should remove a message and mark it expired', () => {
+    expect(queue.removeFromQueue(2)).toBe(true)
+    expect(queue.getQueue().map((m) => m.id)).toEqual([1, 3])
+    expect(updates).toEqual([{ id: 2, state: 'expired' }])
+    expect(snapshots.at(-1)).toEqual([1, 3])
+  })
+
+  it('should report messages that are not queued', () => {
+    expect(queue.moveInQueue(42, 0)).toBe(false)
+    expect(queue.removeFromQueue(42)).toBe(false)
+  })
+})
+
+describe('TTSQueueProcessor priority and interruption', () => {
+  let queue: TTSQueueProcessor
+  let updates: { id: number; state?: string; apiResponseMessage?: string }[]
+
+  function from(id: number, profile: string, config: Partial<ProfileConfig>, filename = 'session.jsonl') {
+    return { ...message(id), profile, filename, profileConfig: { ...profileConfig, id: profile, ...config } }
+  }
+
+  beforeEach(() => {
+    updates = []
+    const database = {
+      updateTTSQueueEntry: (id: number, entry: { state?: string; apiResponseMessage?: string }) => {
+        updates.push({ id, ...entry })
+      },
+      resetStuckPlayingEntries: () => {},
+    } as unknown as DatabaseManager
+
+    queue = new TTSQueueProcessor(database)
+    queue.pauseCurrent()
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('should queue higher priority messages ahead of lower ones', () => {
+    queue.addToQueue(from(1, 'build', {}))
+    queue.addToQueue(from(2, 'build', {}))
+    queue.addToQueue(from(3, 'reviewer', { priority: 10 }))
+    queue.addToQueue(from(4, 'reviewer', { priority: 10 }))
+
+    expect(queue.getQueue().map((m) => m.id)).toEqual([3, 4, 1, 2])
+  })
+
+  it('should replace unplayed messages from the same session', () => {
+    const policy = { interruption: 'replace-same-profile' as const }
+    queue.addToQueue(from(1, 'claude', policy))
+    queue.addToQueue(from(2, 'claude', policy, 'other-session.jsonl'))
+    queue.addToQueue(from(3, 'build', {}))
+    queue.addToQueue(from(4, 'claude', policy))
+
+    expect(queue.getQueue().map((m) => m.id)).toEqual([2, 3, 4])
+    expect(updates).toEqual([{ id: 1, state: 'expired', apiResponseMessage: 'Superseded by entry 4' }])
+  })
+
+  it('should drop messages when busy', () => {
+    queue.addToQueue(from(1, 'claude', { interruption: 'drop-if-busy' }))
+    queue.addToQueue(from(2, 'claude', { interruption: 'drop-if-busy' }))
+
+    expect(queue.getQueue().map((m) => m.id)).toEqual([1])
+    expect(updates).toEqual([
+      { id: 2, state: 'expired', apiResponseMessage: 'Dropped because another message was playing' },
+    ])
+  })
+
+  it('should cut off a lower priority message without marking it played', async () => {
+    // Audio plays until it is stopped or finish() is called
+    let finish: (() => void) | null = null
+    vi.spyOn(MockTTSService.prototype, 'tts').mockResolvedValue(join(tmpdir(), 'agent-tts-interrupt.wav'))
+    vi.spyOn(AudioPlayer.prototype, 'isPlaying').mockImplementation(() => finish !== null)
+    vi.spyOn(AudioPlayer.prototype, 'stop').mockImplementation(() => finish?.())
+    vi.spyOn(AudioPlayer.prototype, 'play').mockImplementation(
+      () =>
+        new Promise<void>((resolve) => {
+          finish = () => {
+            finish = null
+            resolve()
+          }
+        }),
+    )
+
+    // Short texts aren't synthesized, and a single sentence isn't split into chunks
+    const long = (m: QueuedMessage) => ({ ...m, filteredText: `${m.filteredText}${' and then some more'.repeat(8)}` })
+    queue.resumeCurrent()
+    queue.addToQueue(long(from(1, 'build', {})))
+    await vi.waitFor(() => expect(finish).not.toBeNull())
+
+    queue.addToQueue(long(from(2, 'reviewer', { priority: 10, interruption: 'interrupt-lower' })))
+    await vi.waitFor(() => expect(updates).toContainEqual({ id: 2, state: 'playing' }))
+    await vi.waitFor(() => expect(finish).not.toBeNull())
+    finish!()
+    await vi.waitFor(() => expect(updates.at(-1)).toMatchObject({ id: 2, state: 'played' }))
+
+    const states = updates.filter((update) => update.id === 1 && update.state).map((update) => update.state)
+    expect(states).toEqual(['playing', 'expired'])
+    expect(updates).toContainEqual({ id: 1, state: 'expired', apiResponseMessage: 'Interrupted by reviewer' })
+  })
+})
+
+describe('TTSQueueProcessor expiry', () => {
+  it('should skip messages that waited longer than the profile allows', async () => {
+    const updates: { id: number; state?: string }[] = []
+    const database = {
+      updateTTSQueueEntry: (id: number, entry: { state?: string }) => {
+        updates.push({ id, state: entry.state })
+      },
+    } as unknown as DatabaseManager
+    const queue = new TTSQueueProcessor(database)
+    const expired: number[] = []
+    queue.on('expired', (m: QueuedMessage) => expired.push(m.id!))
+
+    const stale = {
+      ...message(1),
+      profileConfig: { ...profileConfig, maxAgeSeconds: 60 },
+      queuedAt: new Date(Date.now() - 2 * 60 * 1000),
+    }
+
+    queue.pauseCurrent()
+    queue.addToQueue(stale)
+    queue.resumeCurrent()
+    await new Promise((resolve) => setImmediate(resolve))
+
+    expect(expired).toEqual([1])
+    expect(updates).toEqual([{ id: 1, state: 'expired' }])
+    expect(queue.getQueue()).toEqual([])
+  })
+})
+
+describe('TTSQueueProcessor audio formats', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('should warn about voices the player cannot decode', () => {
+    const queue = new TTSQueueProcessor({} as unknown as DatabaseManager)
+    // aplay only plays WAV
+    vi.spyOn(AudioPlayer.prototype, 'getBackendStatus').mockReturnValue({ backend: 'aplay' })
+    vi.spyOn(AudioPlayer.prototype, 'canPlay').mockImplementation((format) => format === 'wav')
+    const synthesize = async () => Buffer.from('audio')
+
+    const warnings = queue.checkAudioFormats([
+      profileConfig,
+      {
+        id: 'codex',
+        ttsService: [
+          { type: 'mock' },
+          { type: 'custom', name: 'tts', synthesize, options: { format: 'mp3' } },
+          { type: 'command' }, // Invalid, so reported when it's used instead
+        ],
+      } as unknown as ProfileConfig,
+    ])
+
+    expect(warnings).toEqual([
+      "aplay cannot play the mp3 audio of profile codex's custom voice. Choose a different audioOutput.backend or response format",
+    ])
+  })
+})